@@ -1,12 +1,95 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, ebool, euint32, euint64, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    ebool,
+    euint8,
+    euint32,
+    euint64,
+    externalEbool,
+    externalEuint8,
+    externalEuint32,
+    externalEuint64
+} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ISnapshotToken} from "./interfaces/ISnapshotToken.sol";
+import {BallotLib} from "./libraries/BallotLib.sol";
+import {VoteGridCreatorPolicy} from "./VoteGridCreatorPolicy.sol";
+import {VoteGridDelegation} from "./VoteGridDelegation.sol";
 
 /// @title VoteGrid
 /// @notice Private voting contract that keeps tallies encrypted until a poll is finalized.
 contract VoteGrid is ZamaEthereumConfig {
+    /// @notice Which addresses may cast a ballot in a poll.
+    enum Eligibility {
+        Open,
+        Allowlist,
+        MerkleRoot
+    }
+
+    /// @notice How voters fill in their ballot.
+    /// @dev `SingleChoice` ballots are cast with `castVote`. `Allocation` ballots split a private allowance assigned by
+    /// the creator across options and are cast with `castAllocationVote`. `Approval` ballots select any number of
+    /// options and are cast with `castApprovalVote`. `Ranked` ballots order every option and are cast with
+    /// `castRankedVote`; the poll keeps one counter per possible ranking so an instant-runoff count can be run on the
+    /// decrypted results. `Survey` polls are created with `createSurvey` and group several single-choice questions;
+    /// their options are every question's options in order, and ballots answer all questions with `castSurveyVote`.
+    /// `Numeric` ballots submit an encrypted integer with `castNumericVote`; the options label histogram buckets that
+    /// split the poll's value range evenly, and one more counter keeps the encrypted sum of the values.
+    enum BallotType {
+        SingleChoice,
+        Allocation,
+        Approval,
+        Ranked,
+        Survey,
+        Numeric
+    }
+
+    /// @notice What finalization makes publicly decryptable.
+    /// @dev `Winner` computes the option with the most votes homomorphically and reveals only its index, keeping every
+    /// count encrypted; ties go to the lowest index. `WinnerAndTie` also reveals whether another option had as many
+    /// votes as the winner.
+    enum ResultReveal {
+        Tallies,
+        Winner,
+        WinnerAndTie
+    }
+
+    /// @notice Optional rules chosen by the creator when a poll is created.
+    /// @dev A non-zero `weightToken` makes the poll token-weighted: each ballot counts once per whole token the voter
+    /// held at `snapshotBlock`. With `allowRevote`, voters may replace their ballot until the poll ends. A non-zero
+    /// `quorum` is the number of distinct voters needed for the results to be revealed at finalization.
+    /// `minValue` and `maxValue` bound the answers of a `Numeric` poll and are ignored by other ballot types.
+    struct PollSettings {
+        BallotType ballotType;
+        Eligibility eligibility;
+        bytes32 merkleRoot;
+        address weightToken;
+        uint64 snapshotBlock;
+        bool allowRevote;
+        uint32 quorum;
+        ResultReveal reveal;
+        uint32 minValue;
+        uint32 maxValue;
+    }
+
+    /// @notice Optional description of what a poll decides, shown next to its name.
+    /// @dev `category` and `tags` are free-form labels for grouping and filtering poll lists. `contentHash` points to
+    /// an off-chain document, such as the IPFS CID of the full proposal; the contract does not interpret it.
+    struct PollDetails {
+        string description;
+        string category;
+        string[] tags;
+        string contentHash;
+    }
+
+    /// @notice One question of a survey and its answer options.
+    struct SurveyQuestion {
+        string prompt;
+        string[] options;
+    }
+
     struct Poll {
         string name;
         string[] options;
@@ -15,116 +98,619 @@ contract VoteGrid is ZamaEthereumConfig {
         bool finalized;
         euint64[] encryptedCounts;
         address creator;
+        PollSettings settings;
+        bool cancelled;
+        uint32 participantCount;
+        bool quorumFailed;
+        euint8 encryptedWinner;
+        ebool encryptedTie;
+        uint64[] clearCounts;
+        uint256 bounty;
+        PollDetails details;
     }
 
+    /// @notice Hard ceiling for `maxOptions`: an allocation ballot carries one encrypted 64-bit amount per option and a
+    /// relayer input proof holds at most 32 of them.
+    uint256 public constant MAX_OPTION_LIMIT = 32;
+    /// @notice Ranked polls keep one counter per ranking (n!), so they are limited to 4 options.
+    uint256 public constant MAX_RANKED_OPTIONS = 4;
+    /// @notice Largest number of tags a poll may carry.
+    uint256 public constant MAX_TAGS = 8;
+    /// @notice Largest number of questions in a survey.
+    uint256 public constant MAX_SURVEY_QUESTIONS = 16;
+    /// @notice Largest number of options across all questions of a survey, each of which keeps its own counter.
+    uint256 public constant MAX_SURVEY_OPTIONS = 64;
+
+    /// @notice EIP-712 type hash of the ballot message voters sign for `castVoteBySig`.
+    bytes32 public constant BALLOT_TYPEHASH =
+        keccak256("Ballot(uint256 pollId,bytes32 handle,bytes32 proofHash,uint256 nonce,uint256 deadline)");
+
+    /// @notice Largest number of options a poll may have, fixed at deployment.
+    uint256 public immutable maxOptions;
+
+    /// @notice Registry of the delegations read whenever a ballot is cast.
+    VoteGridDelegation public immutable delegation;
+
+    /// @notice Creation deposit, open-poll cap and creator allowlist every new poll is checked against.
+    VoteGridCreatorPolicy public immutable creatorPolicy;
+
+    /// @notice Nonce each voter's next `castVoteBySig` signature must use; increases with every signed ballot.
+    mapping(address => uint256) public nonces;
+
     Poll[] private _polls;
     mapping(uint256 => mapping(address => bool)) private _hasVoted;
+    mapping(uint256 => mapping(address => bool)) private _allowlisted;
+    mapping(uint256 => mapping(address => euint64)) private _allowances;
+    mapping(uint256 => mapping(address => euint8)) private _rankings;
+    mapping(uint256 => mapping(address => euint64[])) private _ballots;
+    /// @dev Delegate whose ballot counts a delegator's weight in a poll, and the delegators each ballot counted.
+    mapping(uint256 => mapping(address => address)) private _countedBy;
+    mapping(uint256 => mapping(address => address[])) private _counted;
+    /// @dev Prompt and number of options of every survey question, in the order their options appear in the poll.
+    mapping(uint256 => string[]) private _surveyPrompts;
+    mapping(uint256 => uint256[]) private _surveySizes;
 
-    event PollCreated(uint256 indexed pollId, string name, uint64 startTime, uint64 endTime, uint256 optionCount);
+    event PollCreated(
+        uint256 indexed pollId,
+        address indexed creator,
+        string name,
+        uint64 startTime,
+        uint64 endTime,
+        uint256 optionCount
+    );
+    event PollLabelled(uint256 indexed pollId, string category, string[] tags);
     event VoteCast(uint256 indexed pollId, address indexed voter);
+    event VoteChanged(uint256 indexed pollId, address indexed voter);
     event PollFinalized(uint256 indexed pollId);
+    event PollQuorumFailed(uint256 indexed pollId, uint32 participantCount, uint32 quorum);
+    event ResultsPublished(uint256 indexed pollId, uint64[] clearCounts);
+    event AllowlistUpdated(uint256 indexed pollId, uint256 addedCount);
+    event AllowancesAssigned(uint256 indexed pollId, uint256 voterCount);
+    event PollCancelled(uint256 indexed pollId);
+    event PollEndTimeExtended(uint256 indexed pollId, uint64 endTime);
+    event PollMetadataEdited(uint256 indexed pollId, string name);
+    event BountyPaid(uint256 indexed pollId, address indexed keeper, uint256 amount);
 
-    /// @notice Create a new poll with 2-4 options and a voting window.
+    /// @param maxOptions_ Largest number of options a poll may have, between 2 and `MAX_OPTION_LIMIT`.
+    /// @param delegation_ Registry of vote delegations.
+    /// @param creatorPolicy_ Spam protection applied to poll creation.
+    constructor(uint256 maxOptions_, VoteGridDelegation delegation_, VoteGridCreatorPolicy creatorPolicy_) {
+        require(maxOptions_ >= 2 && maxOptions_ <= MAX_OPTION_LIMIT, "Invalid max options");
+        maxOptions = maxOptions_;
+        delegation = delegation_;
+        creatorPolicy = creatorPolicy_;
+    }
+
+    /// @notice Create a new poll with 2 to `maxOptions` options and a voting window.
+    /// @dev The creator policy's `creationDeposit` is taken from the ETH sent and locked until the poll is finalized
+    /// or cancelled. Any ETH beyond it is held as a bounty for whoever finalizes the poll, and refunded if the creator
+    /// cancels it.
     /// @param name Name of the poll.
-    /// @param options List of answer options (between 2 and 4 entries).
+    /// @param options List of answer options (between 2 and `maxOptions` entries).
     /// @param startTime Timestamp when voting opens.
     /// @param endTime Timestamp when voting closes.
+    /// @param settings Ballot type, eligibility and vote weighting rules for the poll.
+    /// @param details Optional description, category, tags and content hash; empty strings and no tags to omit them.
+    /// @param allowlist Initial voters for an `Allowlist` poll; must be empty for other modes.
     /// @return pollId Identifier of the newly created poll.
     function createPoll(
         string calldata name,
         string[] calldata options,
         uint64 startTime,
-        uint64 endTime
-    ) external returns (uint256 pollId) {
+        uint64 endTime,
+        PollSettings calldata settings,
+        PollDetails calldata details,
+        address[] calldata allowlist
+    ) external payable returns (uint256 pollId) {
+        require(settings.ballotType != BallotType.Survey, "Create surveys with createSurvey");
         uint256 optionCount = options.length;
-        require(optionCount >= 2 && optionCount <= 4, "Options must be between 2 and 4");
-        require(endTime > startTime, "End time must be after start time");
-        require(startTime >= block.timestamp, "Start time must be in the future or now");
-        require(bytes(name).length > 0, "Name required");
+        require(optionCount >= 2 && optionCount <= maxOptions, "Options must be between 2 and maxOptions");
 
-        pollId = _polls.length;
-        _polls.push();
-        Poll storage poll = _polls[pollId];
-        poll.name = name;
-        poll.creator = msg.sender;
-        poll.startTime = startTime;
-        poll.endTime = endTime;
+        Poll storage poll;
+        (pollId, poll) = _newPoll(name, startTime, endTime, settings, details, optionCount, allowlist.length);
+        poll.options = new string[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            poll.options[i] = options[i];
+        }
+        _openPoll(pollId, poll, allowlist);
+    }
 
+    /// @notice Create a survey: several single-choice questions answered in one ballot, with one voting window, one
+    /// eligibility check and one participation record for all of them.
+    /// @dev The questions' options are stored in order as the poll's options, so results, exports and finalization
+    /// work as for any other poll; `getSurveyQuestions` tells which options belong to which question.
+    /// @param name Name of the survey.
+    /// @param questions Between 2 and `MAX_SURVEY_QUESTIONS` questions, each with 2 to `maxOptions` options and no more
+    /// than `MAX_SURVEY_OPTIONS` options in total.
+    /// @param startTime Timestamp when voting opens.
+    /// @param endTime Timestamp when voting closes.
+    /// @param settings Poll settings; the ballot type must be `Survey` and every tally is revealed.
+    /// @param details Optional description, category, tags and content hash; empty strings and no tags to omit them.
+    /// @param allowlist Initial voters for an `Allowlist` survey; must be empty for other modes.
+    /// @return pollId Identifier of the newly created survey.
+    function createSurvey(
+        string calldata name,
+        SurveyQuestion[] calldata questions,
+        uint64 startTime,
+        uint64 endTime,
+        PollSettings calldata settings,
+        PollDetails calldata details,
+        address[] calldata allowlist
+    ) external payable returns (uint256 pollId) {
+        require(settings.ballotType == BallotType.Survey, "Surveys use the Survey ballot type");
+        uint256 questionCount = questions.length;
+        require(questionCount >= 2 && questionCount <= MAX_SURVEY_QUESTIONS, "Questions must be between 2 and 16");
+        uint256 optionCount;
+        for (uint256 q = 0; q < questionCount; q++) {
+            uint256 size = questions[q].options.length;
+            require(size >= 2 && size <= maxOptions, "Options must be between 2 and maxOptions");
+            require(bytes(questions[q].prompt).length > 0, "Question required");
+            optionCount += size;
+        }
+        require(optionCount <= MAX_SURVEY_OPTIONS, "Too many survey options");
+
+        Poll storage poll;
+        (pollId, poll) = _newPoll(name, startTime, endTime, settings, details, optionCount, allowlist.length);
         poll.options = new string[](optionCount);
-        poll.encryptedCounts = new euint64[](optionCount);
+        uint256 next;
+        for (uint256 q = 0; q < questionCount; q++) {
+            string[] calldata options = questions[q].options;
+            _surveyPrompts[pollId].push(questions[q].prompt);
+            _surveySizes[pollId].push(options.length);
+            for (uint256 i = 0; i < options.length; i++) {
+                poll.options[next++] = options[i];
+            }
+        }
+        _openPoll(pollId, poll, allowlist);
+    }
+
+    /// @notice Add voters to an `Allowlist` poll before it opens, for lists too large for one transaction.
+    /// @param pollId Identifier of the poll.
+    /// @param voters Addresses allowed to vote.
+    function addToAllowlist(uint256 pollId, address[] calldata voters) external {
+        Poll storage poll = _creatorPoll(pollId);
+        require(poll.settings.eligibility == Eligibility.Allowlist, "Poll has no allowlist");
+        require(block.timestamp < poll.startTime, "Poll already started");
+
+        _addToAllowlist(pollId, voters);
+    }
+
+    /// @notice Assign private voting allowances for an `Allocation` poll before it opens.
+    /// @dev Each voter may decrypt their own allowance. Assigning again overwrites the previous allowance.
+    /// @param pollId Identifier of the poll.
+    /// @param voters Addresses receiving an allowance.
+    /// @param allowances Encrypted allowance for each voter, in the same order.
+    /// @param inputProof Proof produced by the relayer for the encrypted allowances.
+    function setAllowances(
+        uint256 pollId,
+        address[] calldata voters,
+        externalEuint64[] calldata allowances,
+        bytes calldata inputProof
+    ) external {
+        Poll storage poll = _creatorPoll(pollId);
+        require(poll.settings.ballotType == BallotType.Allocation, "Not an allocation poll");
+        require(block.timestamp < poll.startTime, "Poll already started");
+        require(voters.length == allowances.length, "Length mismatch");
+
+        for (uint256 i = 0; i < voters.length; i++) {
+            euint64 allowance = FHE.fromExternal(allowances[i], inputProof);
+            FHE.allowThis(allowance);
+            FHE.allow(allowance, voters[i]);
+            _allowances[pollId][voters[i]] = allowance;
+        }
+
+        emit AllowancesAssigned(pollId, voters.length);
+    }
+
+    /// @notice Cancel a poll before it ends. Cancelled polls take no more ballots and are never finalized, so their
+    /// tallies stay encrypted.
+    /// @dev The bounty is refunded, but the creation deposit is slashed by the creator policy.
+    /// @param pollId Identifier of the poll.
+    function cancelPoll(uint256 pollId) external {
+        Poll storage poll = _creatorPoll(pollId);
+        require(block.timestamp < poll.endTime, "Poll already ended");
+
+        poll.cancelled = true;
+        uint256 bounty = poll.bounty;
+        poll.bounty = 0;
+        emit PollCancelled(pollId);
+        creatorPolicy.pollClosed(pollId, true);
+        _sendValue(msg.sender, bounty);
+    }
+
+    /// @notice Give voters more time by moving the end of a poll that has not ended yet.
+    /// @param pollId Identifier of the poll.
+    /// @param endTime New end timestamp, later than the current one.
+    function extendEndTime(uint256 pollId, uint64 endTime) external {
+        Poll storage poll = _creatorPoll(pollId);
+        require(block.timestamp < poll.endTime, "Poll already ended");
+        require(endTime > poll.endTime, "End time can only be extended");
+
+        poll.endTime = endTime;
+        emit PollEndTimeExtended(pollId, endTime);
+    }
+
+    /// @notice Fix the name or option labels of a poll before it opens.
+    /// @dev The number of options is fixed at creation because the encrypted counters are already allocated.
+    /// @param pollId Identifier of the poll.
+    /// @param name New name of the poll.
+    /// @param options New option labels, one per existing option.
+    function editMetadata(uint256 pollId, string calldata name, string[] calldata options) external {
+        Poll storage poll = _creatorPoll(pollId);
+        require(block.timestamp < poll.startTime, "Poll already started");
+        require(bytes(name).length > 0, "Name required");
+        uint256 optionCount = options.length;
+        require(optionCount == poll.options.length, "Option count cannot change");
 
+        poll.name = name;
         for (uint256 i = 0; i < optionCount; i++) {
             poll.options[i] = options[i];
-            euint64 encryptedZero = FHE.asEuint64(0);
-            // Grant the contract permanent access so counts remain usable in future operations.
-            FHE.allowThis(encryptedZero);
-            poll.encryptedCounts[i] = encryptedZero;
         }
-
-        emit PollCreated(pollId, name, startTime, endTime, optionCount);
+        emit PollMetadataEdited(pollId, name);
     }
 
     /// @notice Cast an encrypted vote for a poll option.
     /// @param pollId Identifier of the poll.
     /// @param encryptedChoice Encrypted option index.
     /// @param inputProof Proof produced by the relayer for the encrypted input.
-    function castVote(uint256 pollId, externalEuint32 encryptedChoice, bytes calldata inputProof) external {
-        require(pollId < _polls.length, "Invalid poll");
-        Poll storage poll = _polls[pollId];
+    /// @param eligibilityProof Merkle proof for `MerkleRoot` polls; empty otherwise.
+    function castVote(
+        uint256 pollId,
+        externalEuint32 encryptedChoice,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        _castVote(pollId, msg.sender, encryptedChoice, inputProof, eligibilityProof);
+    }
 
-        require(block.timestamp >= poll.startTime, "Poll not started");
-        require(block.timestamp < poll.endTime, "Poll already ended");
-        require(!_hasVoted[pollId][msg.sender], "Address already voted");
+    /// @notice Cast a single-choice ballot signed by `voter` and submitted by anyone, so the voter needs no ETH.
+    /// @dev Input proofs are checked against the caller, so the voter encrypts the choice with the relayer's address
+    /// as the user. The voter's EIP-712 `Ballot` signature binds the poll, the handle, the proof and a deadline to the
+    /// voter and consumes the voter's current nonce, so a signed ballot cannot be replayed or altered.
+    /// @param pollId Identifier of the poll.
+    /// @param voter Address that signed the ballot and is recorded as having voted.
+    /// @param encryptedChoice Encrypted option index.
+    /// @param inputProof Proof produced by the relayer for the encrypted input.
+    /// @param eligibilityProof Merkle proof of `voter` for `MerkleRoot` polls; empty otherwise.
+    /// @param deadline Timestamp after which the signature is no longer accepted.
+    /// @param signature 65-byte `r`, `s`, `v` signature of the `Ballot` message by `voter`.
+    function castVoteBySig(
+        uint256 pollId,
+        address voter,
+        externalEuint32 encryptedChoice,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(voter != address(0), "Invalid voter");
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 structHash = keccak256(
+            abi.encode(
+                BALLOT_TYPEHASH,
+                pollId,
+                externalEuint32.unwrap(encryptedChoice),
+                keccak256(inputProof),
+                nonces[voter]++,
+                deadline
+            )
+        );
+        require(_recoverSigner(structHash, signature) == voter, "Invalid signature");
 
-        euint32 choice = FHE.fromExternal(encryptedChoice, inputProof);
-        uint256 optionCount = poll.options.length;
+        _castVote(pollId, voter, encryptedChoice, inputProof, eligibilityProof);
+    }
 
-        for (uint256 i = 0; i < optionCount; i++) {
-            ebool matches = FHE.eq(choice, FHE.asEuint32(uint32(i)));
-            euint32 increment32 = FHE.select(matches, FHE.asEuint32(1), FHE.asEuint32(0));
-            euint64 increment = FHE.asEuint64(increment32);
-            poll.encryptedCounts[i] = FHE.add(poll.encryptedCounts[i], increment);
-            FHE.allowThis(poll.encryptedCounts[i]);
+    /// @notice Cast single-choice votes in several polls at once, with one encrypted input covering every choice.
+    /// @dev The whole batch reverts if any ballot is rejected. Merkle-root polls need a per-voter proof and are not
+    /// accepted here; vote in them with `castVote`.
+    /// @param pollIds Identifiers of the polls.
+    /// @param choices Encrypted option index for each poll, in `pollIds` order.
+    /// @param inputProof Proof produced by the relayer for all encrypted inputs.
+    function castVotes(
+        uint256[] calldata pollIds,
+        externalEuint32[] calldata choices,
+        bytes calldata inputProof
+    ) external {
+        require(pollIds.length > 0 && pollIds.length == choices.length, "One choice per poll");
+        bytes32[] memory noProof = new bytes32[](0);
+        for (uint256 i = 0; i < pollIds.length; i++) {
+            _castVote(pollIds[i], msg.sender, choices[i], inputProof, noProof);
         }
+    }
+
+    /// @notice Cast a single-choice vote encoded as one encrypted flag per option, exactly one of them true.
+    /// @dev Uses fewer HCU than `castVote` because the per-option 32-bit equality test becomes cheap boolean
+    /// operations, at the cost of more EVM gas. A ballot with zero or several flags set counts for nothing.
+    /// @param pollId Identifier of the poll.
+    /// @param encryptedChoice One encrypted flag per option, in option order.
+    /// @param inputProof Proof produced by the relayer for the encrypted inputs.
+    /// @param eligibilityProof Merkle proof for `MerkleRoot` polls; empty otherwise.
+    function castOneHotVote(
+        uint256 pollId,
+        externalEbool[] calldata encryptedChoice,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        Poll storage poll = _beginBallot(pollId, msg.sender, BallotType.SingleChoice, eligibilityProof);
+
+        uint64 voteWeight = _ballotWeight(pollId, poll, msg.sender);
+        require(voteWeight > 0, "No voting weight");
+
+        require(encryptedChoice.length == poll.options.length, "One flag per option");
+
+        euint64[] memory increments = BallotLib.oneHot(encryptedChoice, inputProof, voteWeight);
+        _recordBallot(pollId, msg.sender, poll, increments);
+    }
+
+    /// @notice Split a private allowance across the options of an `Allocation` poll.
+    /// @dev A split whose total exceeds the allowance (or overflows) is counted as all zeros instead of reverting,
+    /// so an observer cannot learn anything about the allowance or the split.
+    /// @param pollId Identifier of the poll.
+    /// @param encryptedAmounts Encrypted points for every option, in option order.
+    /// @param inputProof Proof produced by the relayer for the encrypted inputs.
+    /// @param eligibilityProof Merkle proof for `MerkleRoot` polls; empty otherwise.
+    function castAllocationVote(
+        uint256 pollId,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        Poll storage poll = _beginBallot(pollId, msg.sender, BallotType.Allocation, eligibilityProof);
+        euint64 allowance = _allowances[pollId][msg.sender];
+        require(FHE.isInitialized(allowance), "No allowance");
+
+        require(encryptedAmounts.length == poll.options.length, "One amount per option");
+
+        euint64[] memory amounts = BallotLib.allocation(encryptedAmounts, inputProof, allowance);
+        _recordBallot(pollId, msg.sender, poll, amounts);
+    }
+
+    /// @notice Approve any subset of the options of an `Approval` poll.
+    /// @dev Every approved option receives the voter's full weight. Approving nothing is a valid, blank ballot.
+    /// @param pollId Identifier of the poll.
+    /// @param encryptedSelections One encrypted flag per option, in option order; true approves the option.
+    /// @param inputProof Proof produced by the relayer for the encrypted inputs.
+    /// @param eligibilityProof Merkle proof for `MerkleRoot` polls; empty otherwise.
+    function castApprovalVote(
+        uint256 pollId,
+        externalEbool[] calldata encryptedSelections,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        Poll storage poll = _beginBallot(pollId, msg.sender, BallotType.Approval, eligibilityProof);
+
+        uint64 voteWeight = _ballotWeight(pollId, poll, msg.sender);
+        require(voteWeight > 0, "No voting weight");
+
+        require(encryptedSelections.length == poll.options.length, "One selection per option");
+
+        euint64[] memory increments = BallotLib.approval(encryptedSelections, inputProof, voteWeight);
+        _recordBallot(pollId, msg.sender, poll, increments);
+    }
 
-        _hasVoted[pollId][msg.sender] = true;
-        emit VoteCast(pollId, msg.sender);
+    /// @notice Rank every option of a `Ranked` poll.
+    /// @dev The ranking is encrypted as its position in the lexicographic order of all rankings (see `src/irv.ts`).
+    /// An index outside that range matches no counter and counts for nothing.
+    /// @param pollId Identifier of the poll.
+    /// @param encryptedRanking Encrypted ranking index.
+    /// @param inputProof Proof produced by the relayer for the encrypted input.
+    /// @param eligibilityProof Merkle proof for `MerkleRoot` polls; empty otherwise.
+    function castRankedVote(
+        uint256 pollId,
+        externalEuint8 encryptedRanking,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        Poll storage poll = _beginBallot(pollId, msg.sender, BallotType.Ranked, eligibilityProof);
+
+        uint64 voteWeight = _ballotWeight(pollId, poll, msg.sender);
+        require(voteWeight > 0, "No voting weight");
+
+        euint8 ranking = FHE.fromExternal(encryptedRanking, inputProof);
+        FHE.allowThis(ranking);
+        FHE.allow(ranking, msg.sender);
+        _rankings[pollId][msg.sender] = ranking;
+
+        euint64[] memory increments = BallotLib.ranked(ranking, poll.encryptedCounts.length, voteWeight);
+        _recordBallot(pollId, msg.sender, poll, increments);
+    }
+
+    /// @notice Submit an encrypted integer to a `Numeric` poll.
+    /// @dev A value outside the poll's range is clamped to its nearest bound homomorphically, so an out-of-range answer
+    /// counts as the bound and is indistinguishable from it on-chain. The value is added, times the voter's weight, to
+    /// the sum counter and the weight to the counter of the bucket it falls into.
+    /// @param pollId Identifier of the poll.
+    /// @param encryptedValue Encrypted answer.
+    /// @param inputProof Proof produced by the relayer for the encrypted input.
+    /// @param eligibilityProof Merkle proof for `MerkleRoot` polls; empty otherwise.
+    function castNumericVote(
+        uint256 pollId,
+        externalEuint32 encryptedValue,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        Poll storage poll = _beginBallot(pollId, msg.sender, BallotType.Numeric, eligibilityProof);
+
+        uint64 voteWeight = _ballotWeight(pollId, poll, msg.sender);
+        require(voteWeight > 0, "No voting weight");
+
+        PollSettings storage settings = poll.settings;
+        euint64[] memory increments = BallotLib.numeric(
+            encryptedValue,
+            inputProof,
+            settings.minValue,
+            settings.maxValue,
+            poll.options.length,
+            voteWeight
+        );
+        _recordBallot(pollId, msg.sender, poll, increments);
     }
 
-    /// @notice Finalize a poll after its end time by making tallies publicly decryptable.
+    /// @notice Answer every question of a `Survey` poll in one ballot.
+    /// @dev Each answer is an option index within its question, encrypted in the same input. An index outside its
+    /// question matches no counter, so that question counts for nothing while the other answers still count.
+    /// @param pollId Identifier of the survey.
+    /// @param encryptedAnswers Encrypted option index for every question, in question order.
+    /// @param inputProof Proof produced by the relayer for the encrypted inputs.
+    /// @param eligibilityProof Merkle proof for `MerkleRoot` polls; empty otherwise.
+    function castSurveyVote(
+        uint256 pollId,
+        externalEuint32[] calldata encryptedAnswers,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        Poll storage poll = _beginBallot(pollId, msg.sender, BallotType.Survey, eligibilityProof);
+
+        uint64 voteWeight = _ballotWeight(pollId, poll, msg.sender);
+        require(voteWeight > 0, "No voting weight");
+
+        uint256[] memory questionSizes = _surveySizes[pollId];
+        require(encryptedAnswers.length == questionSizes.length, "One answer per question");
+
+        euint64[] memory increments = BallotLib.survey(encryptedAnswers, inputProof, questionSizes, voteWeight);
+        _recordBallot(pollId, msg.sender, poll, increments);
+    }
+
+    /// @notice Finalize a poll after its end time by making tallies, or only the winner, publicly decryptable.
+    /// @dev If fewer distinct voters than the poll's quorum took part, the poll is finalized as failed quorum instead
+    /// and its tallies stay encrypted, so a handful of ballots can never be traced back to their voters. The caller
+    /// receives the poll's bounty, if any, and the creation deposit is refunded to the creator by the creator policy.
     /// @param pollId Identifier of the poll to finalize.
     function finalizePoll(uint256 pollId) external {
         require(pollId < _polls.length, "Invalid poll");
         Poll storage poll = _polls[pollId];
 
+        require(!poll.cancelled, "Poll cancelled");
         require(block.timestamp >= poll.endTime, "Poll still active");
         require(!poll.finalized, "Poll already finalized");
 
-        uint256 optionCount = poll.options.length;
-        for (uint256 i = 0; i < optionCount; i++) {
-            poll.encryptedCounts[i] = FHE.makePubliclyDecryptable(poll.encryptedCounts[i]);
+        _sendValue(msg.sender, _finalize(pollId, poll));
+    }
+
+    /// @notice Finalize every ended poll in a list, for keepers that sweep many polls at once.
+    /// @dev Polls that are not ready (unknown, still active, cancelled or already finalized) are skipped instead of
+    /// reverting, so a keeper racing another finalizer does not lose the whole batch. Bounties are paid in one
+    /// transfer.
+    /// @param pollIds Identifiers of the polls to finalize.
+    /// @return finalizedCount Number of polls this call finalized.
+    function finalizeExpired(uint256[] calldata pollIds) external returns (uint256 finalizedCount) {
+        uint256 bounty;
+        for (uint256 i = 0; i < pollIds.length; i++) {
+            uint256 pollId = pollIds[i];
+            if (pollId >= _polls.length) continue;
+            Poll storage poll = _polls[pollId];
+            if (poll.cancelled || poll.finalized || block.timestamp < poll.endTime) continue;
+
+            bounty += _finalize(pollId, poll);
+            finalizedCount++;
+        }
+        _sendValue(msg.sender, bounty);
+    }
+
+    /// @dev Finalize a poll that passed every check and return the bounty owed to the caller.
+    function _finalize(uint256 pollId, Poll storage poll) private returns (uint256 bounty) {
+        bounty = poll.bounty;
+        if (bounty > 0) {
+            poll.bounty = 0;
+            emit BountyPaid(pollId, msg.sender, bounty);
         }
 
         poll.finalized = true;
+        creatorPolicy.pollClosed(pollId, false);
+        if (poll.participantCount < poll.settings.quorum) {
+            poll.quorumFailed = true;
+            emit PollQuorumFailed(pollId, poll.participantCount, poll.settings.quorum);
+            return bounty;
+        }
+
+        if (poll.settings.reveal == ResultReveal.Tallies) {
+            uint256 counterCount = poll.encryptedCounts.length;
+            for (uint256 i = 0; i < counterCount; i++) {
+                poll.encryptedCounts[i] = FHE.makePubliclyDecryptable(poll.encryptedCounts[i]);
+            }
+        } else {
+            _revealWinner(poll);
+        }
+
         emit PollFinalized(pollId);
     }
 
+    /// @notice Record the decrypted tallies of a finalized poll on-chain, verified against the KMS decryption proof.
+    /// @dev Anyone may publish, since the proof binds the values to the poll's counters; results are published once.
+    /// @param pollId Identifier of the poll.
+    /// @param clearCounts Decrypted value of every counter, in `getEncryptedResults` order.
+    /// @param decryptionProof KMS signatures returned by the relayer's public decryption of those counters.
+    function publishResults(uint256 pollId, uint64[] calldata clearCounts, bytes calldata decryptionProof) external {
+        Poll storage poll = _revealedPoll(pollId);
+        require(poll.settings.reveal == ResultReveal.Tallies, "Poll reveals the winner only");
+        require(poll.clearCounts.length == 0, "Results already published");
+        BallotLib.checkTallies(poll.encryptedCounts, clearCounts, decryptionProof);
+
+        poll.clearCounts = clearCounts;
+        emit ResultsPublished(pollId, clearCounts);
+    }
+
     /// @notice Get the number of polls created.
     function totalPolls() external view returns (uint256) {
         return _polls.length;
     }
 
+    /// @notice EIP-712 domain separator for `castVoteBySig` signatures, bound to this chain and contract.
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                    keccak256("VoteGrid"),
+                    keccak256("1"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+
     /// @notice Get poll metadata without tally information.
     function getPollMetadata(
         uint256 pollId
     )
         external
         view
-        returns (string memory name, uint64 startTime, uint64 endTime, bool finalized, address creator, uint256 optionCount)
+        returns (
+            string memory name,
+            uint64 startTime,
+            uint64 endTime,
+            bool finalized,
+            address creator,
+            uint256 optionCount,
+            bool cancelled
+        )
     {
         require(pollId < _polls.length, "Invalid poll");
         Poll storage poll = _polls[pollId];
-        return (poll.name, poll.startTime, poll.endTime, poll.finalized, poll.creator, poll.options.length);
+        return (
+            poll.name,
+            poll.startTime,
+            poll.endTime,
+            poll.finalized,
+            poll.creator,
+            poll.options.length,
+            poll.cancelled
+        );
+    }
+
+    /// @notice Get the description, category, tags and content hash a poll was created with.
+    function getPollDetails(uint256 pollId) external view returns (PollDetails memory) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _polls[pollId].details;
+    }
+
+    /// @notice Get the questions of a survey and how many of the poll's options, in order, belong to each.
+    /// @dev Both arrays are empty for polls that are not surveys.
+    function getSurveyQuestions(
+        uint256 pollId
+    ) external view returns (string[] memory prompts, uint256[] memory optionCounts) {
+        require(pollId < _polls.length, "Invalid poll");
+        return (_surveyPrompts[pollId], _surveySizes[pollId]);
     }
 
     /// @notice Get the poll options by id.
@@ -139,10 +725,437 @@ contract VoteGrid is ZamaEthereumConfig {
         return _hasVoted[pollId][user];
     }
 
+    /// @notice Get the eligibility rules of a poll.
+    function getPollSettings(uint256 pollId) external view returns (PollSettings memory) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _polls[pollId].settings;
+    }
+
+    /// @notice ETH held for whoever finalizes the poll; zero once paid out or refunded.
+    function getBounty(uint256 pollId) external view returns (uint256) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _polls[pollId].bounty;
+    }
+
+    /// @notice Distinct voters so far, the poll's quorum, and whether finalization found the quorum unmet.
+    function getTurnout(
+        uint256 pollId
+    ) external view returns (uint32 participantCount, uint32 quorum, bool quorumFailed) {
+        require(pollId < _polls.length, "Invalid poll");
+        Poll storage poll = _polls[pollId];
+        return (poll.participantCount, poll.settings.quorum, poll.quorumFailed);
+    }
+
+    /// @notice Encrypted allowance of a voter in an `Allocation` poll; only that voter can decrypt it.
+    function getAllowance(uint256 pollId, address user) external view returns (euint64) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _allowances[pollId][user];
+    }
+
+    /// @notice Number of votes an address would cast in a poll: 1, or its whole-token balance for weighted polls.
+    function getVoteWeight(uint256 pollId, address user) external view returns (uint64) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _voteWeight(_polls[pollId], user);
+    }
+
+    /// @notice Number of votes a ballot from `user` would cast in a poll now: their own weight plus that of every
+    /// delegator it would count.
+    function getBallotWeight(uint256 pollId, address user) external view returns (uint64 weight) {
+        require(pollId < _polls.length, "Invalid poll");
+        (weight, ) = _delegatedWeight(pollId, _polls[pollId], user);
+    }
+
+    /// @notice Encrypted ballot a voter cast: what it added to each counter, in counter order.
+    /// @dev Only that voter can decrypt it. A ballot rejected by an encrypted validity check reads as all zeros.
+    function getBallot(uint256 pollId, address user) external view returns (euint64[] memory) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _ballots[pollId][user];
+    }
+
+    /// @notice Encrypted ranking index a voter submitted in a `Ranked` poll; only that voter can decrypt it.
+    function getRanking(uint256 pollId, address user) external view returns (euint8) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _rankings[pollId][user];
+    }
+
+    /// @notice Check whether an address may vote in a poll, given its Merkle proof when one is required.
+    function isEligible(
+        uint256 pollId,
+        address user,
+        bytes32[] calldata eligibilityProof
+    ) external view returns (bool) {
+        require(pollId < _polls.length, "Invalid poll");
+        return _isEligible(pollId, user, eligibilityProof);
+    }
+
     /// @notice Return encrypted tallies after a poll has been finalized.
+    /// @dev One counter per option, except for `Ranked` polls which hold one counter per ranking.
     function getEncryptedResults(uint256 pollId) external view returns (euint64[] memory) {
+        Poll storage poll = _revealedPoll(pollId);
+        require(poll.settings.reveal == ResultReveal.Tallies, "Poll reveals the winner only");
+        return poll.encryptedCounts;
+    }
+
+    /// @notice Return the verified plaintext tallies recorded by `publishResults`, in `getEncryptedResults` order.
+    function getClearResults(uint256 pollId) external view returns (uint64[] memory) {
+        require(pollId < _polls.length, "Invalid poll");
+        require(_polls[pollId].clearCounts.length > 0, "Results not published");
+        return _polls[pollId].clearCounts;
+    }
+
+    /// @notice Return the encrypted winning option index of a finalized winner-only poll.
+    /// @return winner Index of the option with the most votes.
+    /// @return tie Whether another option had as many votes; an uninitialized handle unless the poll uses
+    /// `WinnerAndTie`.
+    function getEncryptedWinner(uint256 pollId) external view returns (euint8 winner, ebool tie) {
+        Poll storage poll = _revealedPoll(pollId);
+        require(poll.settings.reveal != ResultReveal.Tallies, "Poll reveals full tallies");
+        return (poll.encryptedWinner, poll.encryptedTie);
+    }
+
+    /// @dev Shared checks and bookkeeping for `createPoll` and `createSurvey`; the caller fills in the options and then
+    /// calls `_openPoll`.
+    function _newPoll(
+        string calldata name,
+        uint64 startTime,
+        uint64 endTime,
+        PollSettings calldata settings,
+        PollDetails calldata details,
+        uint256 optionCount,
+        uint256 allowlistLength
+    ) private returns (uint256 pollId, Poll storage poll) {
+        require(endTime > startTime, "End time must be after start time");
+        require(startTime >= block.timestamp, "Start time must be in the future or now");
+        require(bytes(name).length > 0, "Name required");
+        require(details.tags.length <= MAX_TAGS, "Too many tags");
+        _validateSettings(settings, optionCount, allowlistLength);
+
+        pollId = _polls.length;
+        _polls.push();
+        poll = _polls[pollId];
+        poll.name = name;
+        poll.creator = msg.sender;
+        poll.startTime = startTime;
+        poll.endTime = endTime;
+        poll.settings = settings;
+        poll.details = details;
+
+        uint256 deposit = creatorPolicy.creationDeposit();
+        require(msg.value >= deposit, "Creation deposit required");
+        poll.bounty = msg.value - deposit;
+        creatorPolicy.pollOpened{value: deposit}(pollId, msg.sender);
+    }
+
+    /// @dev Allocate the encrypted counters of a poll whose options are set, announce it and add its allowlist.
+    function _openPoll(uint256 pollId, Poll storage poll, address[] calldata allowlist) private {
+        uint256 optionCount = poll.options.length;
+        BallotType ballotType = poll.settings.ballotType;
+        // Ranked polls count every ranking; numeric polls add the sum of the values after their buckets.
+        uint256 counterCount = ballotType == BallotType.Ranked
+            ? _factorial(optionCount)
+            : optionCount + (ballotType == BallotType.Numeric ? 1 : 0);
+        poll.encryptedCounts = new euint64[](counterCount);
+        for (uint256 i = 0; i < counterCount; i++) {
+            euint64 encryptedZero = FHE.asEuint64(0);
+            // Grant the contract permanent access so counts remain usable in future operations.
+            FHE.allowThis(encryptedZero);
+            poll.encryptedCounts[i] = encryptedZero;
+        }
+
+        emit PollCreated(pollId, poll.creator, poll.name, poll.startTime, poll.endTime, optionCount);
+        PollDetails storage details = poll.details;
+        if (bytes(details.category).length > 0 || details.tags.length > 0) {
+            emit PollLabelled(pollId, details.category, details.tags);
+        }
+
+        if (allowlist.length > 0) {
+            _addToAllowlist(pollId, allowlist);
+        }
+    }
+
+    function _validateSettings(
+        PollSettings calldata settings,
+        uint256 optionCount,
+        uint256 allowlistLength
+    ) private view {
+        _validateEligibility(settings, allowlistLength);
+        if (settings.ballotType == BallotType.Ranked) {
+            require(optionCount <= MAX_RANKED_OPTIONS, "Ranked polls support up to 4 options");
+            require(settings.reveal == ResultReveal.Tallies, "Ranked polls reveal every ranking");
+        }
+        if (settings.ballotType == BallotType.Survey || settings.ballotType == BallotType.Numeric) {
+            require(settings.reveal == ResultReveal.Tallies, "Surveys and numeric polls reveal every tally");
+        }
+        if (settings.ballotType == BallotType.Numeric) {
+            // Every bucket must hold at least one value of the range.
+            require(
+                settings.maxValue > settings.minValue &&
+                    optionCount <= uint256(settings.maxValue - settings.minValue) + 1,
+                "Invalid numeric range"
+            );
+        }
+        if (settings.weightToken != address(0)) {
+            require(settings.ballotType != BallotType.Allocation, "Allocation polls cannot be token-weighted");
+            // A value times a token balance could wrap the 64-bit sum counter without any error.
+            require(settings.ballotType != BallotType.Numeric, "Numeric polls cannot be token-weighted");
+            require(settings.snapshotBlock < block.number, "Snapshot block must be in the past");
+        } else {
+            require(settings.snapshotBlock == 0, "Snapshot block only for weighted polls");
+        }
+    }
+
+    function _validateEligibility(PollSettings calldata settings, uint256 allowlistLength) private pure {
+        if (settings.eligibility == Eligibility.MerkleRoot) {
+            require(settings.merkleRoot != bytes32(0), "Merkle root required");
+        } else {
+            require(settings.merkleRoot == bytes32(0), "Merkle root only for MerkleRoot polls");
+        }
+        if (settings.eligibility != Eligibility.Allowlist) {
+            require(allowlistLength == 0, "Allowlist only for Allowlist polls");
+        }
+    }
+
+    function _castVote(
+        uint256 pollId,
+        address voter,
+        externalEuint32 encryptedChoice,
+        bytes calldata inputProof,
+        bytes32[] memory eligibilityProof
+    ) private {
+        Poll storage poll = _beginBallot(pollId, voter, BallotType.SingleChoice, eligibilityProof);
+
+        uint64 voteWeight = _ballotWeight(pollId, poll, voter);
+        require(voteWeight > 0, "No voting weight");
+
+        euint64[] memory increments = BallotLib.singleChoice(
+            encryptedChoice,
+            inputProof,
+            poll.options.length,
+            voteWeight
+        );
+        _recordBallot(pollId, voter, poll, increments);
+    }
+
+    /// @dev Shared checks for every ballot entry point; returns the poll being voted on.
+    function _beginBallot(
+        uint256 pollId,
+        address voter,
+        BallotType ballotType,
+        bytes32[] memory eligibilityProof
+    ) private view returns (Poll storage poll) {
         require(pollId < _polls.length, "Invalid poll");
-        require(_polls[pollId].finalized, "Poll not finalized");
-        return _polls[pollId].encryptedCounts;
+        poll = _polls[pollId];
+
+        require(poll.settings.ballotType == ballotType, "Wrong ballot type");
+        require(!poll.cancelled, "Poll cancelled");
+        require(block.timestamp >= poll.startTime, "Poll not started");
+        require(block.timestamp < poll.endTime, "Poll already ended");
+        require(!_hasVoted[pollId][voter] || poll.settings.allowRevote, "Address already voted");
+        require(_isEligible(pollId, voter, eligibilityProof), "Address not eligible");
+    }
+
+    /// @dev Shared checks for result views; returns a poll whose results were revealed at finalization.
+    function _revealedPoll(uint256 pollId) private view returns (Poll storage poll) {
+        require(pollId < _polls.length, "Invalid poll");
+        poll = _polls[pollId];
+        require(poll.finalized, "Poll not finalized");
+        require(!poll.quorumFailed, "Quorum not met");
+    }
+
+    /// @dev Shared checks for creator-only actions; returns a poll that is neither cancelled nor finalized.
+    function _creatorPoll(uint256 pollId) private view returns (Poll storage poll) {
+        require(pollId < _polls.length, "Invalid poll");
+        poll = _polls[pollId];
+
+        require(msg.sender == poll.creator, "Only creator");
+        require(!poll.cancelled, "Poll cancelled");
+        require(!poll.finalized, "Poll already finalized");
+    }
+
+    /// @dev Add a ballot's per-counter increments to the tallies and keep them, decryptable by the voter only, so the
+    /// voter can verify their ballot and a replacement ballot in a re-votable poll can subtract them again.
+    function _recordBallot(uint256 pollId, address voter, Poll storage poll, euint64[] memory increments) private {
+        euint64[] storage previous = _ballots[pollId][voter];
+        bool replacing = previous.length > 0;
+
+        uint256 counterCount = increments.length;
+        for (uint256 i = 0; i < counterCount; i++) {
+            euint64 count = FHE.add(poll.encryptedCounts[i], increments[i]);
+            if (replacing) {
+                count = FHE.sub(count, previous[i]);
+            }
+            poll.encryptedCounts[i] = count;
+            FHE.allowThis(count);
+            FHE.allowThis(increments[i]);
+            FHE.allow(increments[i], voter);
+        }
+        _ballots[pollId][voter] = increments;
+
+        if (replacing) {
+            emit VoteChanged(pollId, voter);
+        } else {
+            _hasVoted[pollId][voter] = true;
+            poll.participantCount += 1;
+            emit VoteCast(pollId, voter);
+        }
+    }
+
+    /// @dev Only the winner (and, if requested, the tie flag) becomes publicly decryptable; the counters stay private.
+    function _revealWinner(Poll storage poll) private {
+        (euint8 winner, ebool tie) = BallotLib.argmax(poll.encryptedCounts);
+        poll.encryptedWinner = FHE.makePubliclyDecryptable(winner);
+        if (poll.settings.reveal == ResultReveal.WinnerAndTie) {
+            poll.encryptedTie = FHE.makePubliclyDecryptable(tie);
+        }
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        if (amount == 0) return;
+        (bool sent, ) = payable(to).call{value: amount}("");
+        require(sent, "ETH transfer failed");
+    }
+
+    function _addToAllowlist(uint256 pollId, address[] calldata voters) private {
+        uint256 count = voters.length;
+        for (uint256 i = 0; i < count; i++) {
+            _allowlisted[pollId][voters[i]] = true;
+        }
+        emit AllowlistUpdated(pollId, count);
+    }
+
+    function _isEligible(uint256 pollId, address user, bytes32[] memory eligibilityProof) private view returns (bool) {
+        PollSettings storage settings = _polls[pollId].settings;
+        if (settings.eligibility == Eligibility.Allowlist) {
+            return _allowlisted[pollId][user];
+        }
+        if (settings.eligibility == Eligibility.MerkleRoot) {
+            bytes32 leaf = keccak256(abi.encodePacked(user));
+            return _processMerkleProof(eligibilityProof, leaf) == settings.merkleRoot;
+        }
+        return true;
+    }
+
+    /// @dev Weight of a ballot `voter` is casting. A direct vote overrides the delegate's, so a voter whose delegate
+    /// already counted them is first taken out of that delegate's ballot. The delegators a previous ballot counted are
+    /// released, and counted again if they still delegate to `voter`.
+    function _ballotWeight(uint256 pollId, Poll storage poll, address voter) private returns (uint64 weight) {
+        address countedBy = _countedBy[pollId][voter];
+        if (countedBy != address(0)) {
+            _uncount(pollId, poll, countedBy, voter);
+        }
+
+        address[] storage counted = _counted[pollId][voter];
+        for (uint256 i = 0; i < counted.length; i++) {
+            if (_countedBy[pollId][counted[i]] == voter) {
+                delete _countedBy[pollId][counted[i]];
+            }
+        }
+        delete _counted[pollId][voter];
+
+        address[] memory delegators;
+        (weight, delegators) = _delegatedWeight(pollId, poll, voter);
+        for (uint256 i = 0; i < delegators.length; i++) {
+            if (delegators[i] != address(0)) {
+                _countedBy[pollId][delegators[i]] = voter;
+                counted.push(delegators[i]);
+            }
+        }
+    }
+
+    /// @dev `voter`'s own weight plus that of each delegator their ballot counts: eligible, with some weight, not
+    /// voting directly and not counted by another delegate. Delegators that do not count are zeroed in `delegators`.
+    /// Allocation polls have per-voter allowances, numeric polls sum each voter's own value and Merkle-root polls need
+    /// each voter's proof, so none of them counts delegators.
+    function _delegatedWeight(
+        uint256 pollId,
+        Poll storage poll,
+        address voter
+    ) private view returns (uint64 weight, address[] memory delegators) {
+        weight = _voteWeight(poll, voter);
+        PollSettings storage settings = poll.settings;
+        if (
+            settings.ballotType == BallotType.Allocation ||
+            settings.ballotType == BallotType.Numeric ||
+            settings.eligibility == Eligibility.MerkleRoot
+        ) {
+            return (weight, delegators);
+        }
+
+        delegators = delegation.delegatorsOf(pollId, voter);
+        for (uint256 i = 0; i < delegators.length; i++) {
+            address delegator = delegators[i];
+            address countedBy = _countedBy[pollId][delegator];
+            uint64 share = _voteWeight(poll, delegator);
+            if (
+                share == 0 ||
+                _hasVoted[pollId][delegator] ||
+                (countedBy != address(0) && countedBy != voter) ||
+                (settings.eligibility == Eligibility.Allowlist && !_allowlisted[pollId][delegator])
+            ) {
+                delegators[i] = address(0);
+            } else {
+                weight += share;
+            }
+        }
+    }
+
+    /// @dev Take a delegator's share out of the ballot of the delegate that counted it, and out of the tallies.
+    function _uncount(uint256 pollId, Poll storage poll, address delegate, address delegator) private {
+        euint64[] storage ballot = _ballots[pollId][delegate];
+        euint64[] memory shares = BallotLib.delegatedShare(ballot, _voteWeight(poll, delegator));
+        for (uint256 i = 0; i < shares.length; i++) {
+            euint64 remaining = FHE.sub(ballot[i], shares[i]);
+            ballot[i] = remaining;
+            FHE.allowThis(remaining);
+            FHE.allow(remaining, delegate);
+
+            euint64 count = FHE.sub(poll.encryptedCounts[i], shares[i]);
+            poll.encryptedCounts[i] = count;
+            FHE.allowThis(count);
+        }
+        delete _countedBy[pollId][delegator];
+    }
+
+    function _voteWeight(Poll storage poll, address user) private view returns (uint64) {
+        address token = poll.settings.weightToken;
+        if (token == address(0)) {
+            return 1;
+        }
+        uint256 balance = ISnapshotToken(token).balanceOfAt(user, poll.settings.snapshotBlock);
+        uint256 wholeTokens = balance / (10 ** ISnapshotToken(token).decimals());
+        require(wholeTokens <= type(uint64).max, "Vote weight too large");
+        return uint64(wholeTokens);
+    }
+
+    /// @dev Signer of an EIP-712 message of this contract; reverts for a malformed or unrecoverable signature.
+    function _recoverSigner(bytes32 structHash, bytes calldata signature) private view returns (address signer) {
+        require(signature.length == 65, "Invalid signature");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        // Only the lower-half `s` of the two valid values is accepted, so a signature has a single encoding.
+        require(uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0, "Invalid signature");
+
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+    }
+
+    function _factorial(uint256 n) private pure returns (uint256 result) {
+        result = 1;
+        for (uint256 i = 2; i <= n; i++) {
+            result *= i;
+        }
+    }
+
+    /// @dev Sorted-pair keccak256 Merkle proof, matching `src/allowlist.ts` and the frontend tree builder.
+    function _processMerkleProof(bytes32[] memory proof, bytes32 leaf) private pure returns (bytes32 computed) {
+        computed = leaf;
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            computed = computed < sibling
+                ? keccak256(abi.encodePacked(computed, sibling))
+                : keccak256(abi.encodePacked(sibling, computed));
+        }
     }
 }
@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title VoteGridCreatorPolicy
+/// @notice Spam protection for poll creation: an optional deposit per poll, a cap on how many polls one address may
+/// have open at once and an optional owner-managed allowlist of creators.
+/// @dev Kept out of `VoteGrid` for contract size. `VoteGrid` reports every poll it opens, forwarding the deposit, and
+/// every poll it closes. A poll stays open until it is finalized or cancelled. Refunds are credited rather than sent,
+/// so a creator that cannot receive ETH cannot block the finalization of its poll.
+contract VoteGridCreatorPolicy {
+    /// @notice Address allowed to change the settings, manage the creator allowlist and withdraw slashed deposits.
+    address public owner;
+    /// @notice The `VoteGrid` whose polls this policy governs, set once by the owner after deployment.
+    address public voteGrid;
+
+    /// @notice Deposit in wei a creator pays with each new poll, on top of any finalization bounty.
+    uint256 public creationDeposit;
+    /// @notice Largest number of polls one address may have open at once; zero means no cap.
+    uint256 public maxOpenPolls;
+    /// @notice Whether only allowlisted addresses may create polls.
+    bool public creatorAllowlistEnabled;
+
+    /// @notice Slashed deposits the owner has not withdrawn yet.
+    uint256 public slashedBalance;
+    /// @notice Polls each address has open.
+    mapping(address => uint256) public openPollCount;
+    /// @notice Refunded deposits each creator can withdraw with `withdrawRefund`.
+    mapping(address => uint256) public refunds;
+    /// @notice Addresses allowed to create polls while the creator allowlist is enabled.
+    mapping(address => bool) public isAllowedCreator;
+
+    mapping(uint256 => address) private _pollCreator;
+    mapping(uint256 => uint256) private _pollDeposit;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event CreatorPolicyUpdated(uint256 creationDeposit, uint256 maxOpenPolls, bool creatorAllowlistEnabled);
+    event CreatorAllowed(address indexed creator, bool allowed);
+    event DepositLocked(uint256 indexed pollId, address indexed creator, uint256 amount);
+    event DepositRefunded(uint256 indexed pollId, address indexed creator, uint256 amount);
+    event DepositSlashed(uint256 indexed pollId, address indexed creator, uint256 amount);
+
+    /// @param creationDeposit_ Deposit in wei required per poll; zero for none.
+    /// @param maxOpenPolls_ Largest number of open polls per address; zero for no cap.
+    /// @param creators Addresses allowed to create polls; a non-empty list enables the creator allowlist.
+    constructor(uint256 creationDeposit_, uint256 maxOpenPolls_, address[] memory creators) {
+        owner = msg.sender;
+        creationDeposit = creationDeposit_;
+        maxOpenPolls = maxOpenPolls_;
+        creatorAllowlistEnabled = creators.length > 0;
+        for (uint256 i = 0; i < creators.length; i++) {
+            isAllowedCreator[creators[i]] = true;
+            emit CreatorAllowed(creators[i], true);
+        }
+        emit OwnershipTransferred(address(0), msg.sender);
+        emit CreatorPolicyUpdated(creationDeposit_, maxOpenPolls_, creatorAllowlistEnabled);
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only the owner");
+        _;
+    }
+
+    modifier onlyVoteGrid() {
+        require(msg.sender == voteGrid, "Only VoteGrid");
+        _;
+    }
+
+    /// @notice Bind the policy to the `VoteGrid` that reports to it. Polls cannot be created until this is done.
+    function setVoteGrid(address voteGrid_) external onlyOwner {
+        require(voteGrid == address(0), "VoteGrid already set");
+        require(voteGrid_ != address(0), "Invalid VoteGrid");
+        voteGrid = voteGrid_;
+    }
+
+    /// @notice Hand the policy to a new owner.
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "Invalid owner");
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @notice Change the deposit, the open-poll cap and whether the creator allowlist applies.
+    /// @dev A new deposit only applies to polls created afterwards; open polls keep the deposit they were created with.
+    function setPolicy(
+        uint256 creationDeposit_,
+        uint256 maxOpenPolls_,
+        bool creatorAllowlistEnabled_
+    ) external onlyOwner {
+        creationDeposit = creationDeposit_;
+        maxOpenPolls = maxOpenPolls_;
+        creatorAllowlistEnabled = creatorAllowlistEnabled_;
+        emit CreatorPolicyUpdated(creationDeposit_, maxOpenPolls_, creatorAllowlistEnabled_);
+    }
+
+    /// @notice Add addresses to the creator allowlist, or remove them.
+    function setCreatorsAllowed(address[] calldata creators, bool allowed) external onlyOwner {
+        for (uint256 i = 0; i < creators.length; i++) {
+            isAllowedCreator[creators[i]] = allowed;
+            emit CreatorAllowed(creators[i], allowed);
+        }
+    }
+
+    /// @notice Send the slashed deposits collected so far to `to`.
+    function withdrawSlashed(address to) external onlyOwner {
+        uint256 amount = slashedBalance;
+        slashedBalance = 0;
+        _sendValue(to, amount);
+    }
+
+    /// @notice Withdraw the deposits refunded to you when your polls were finalized.
+    function withdrawRefund() external {
+        uint256 amount = refunds[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        refunds[msg.sender] = 0;
+        _sendValue(msg.sender, amount);
+    }
+
+    /// @notice Whether `creator` may open another poll now, ignoring the deposit.
+    function canCreate(address creator) public view returns (bool) {
+        if (creatorAllowlistEnabled && !isAllowedCreator[creator]) return false;
+        return maxOpenPolls == 0 || openPollCount[creator] < maxOpenPolls;
+    }
+
+    /// @notice Deposit locked for a poll until it is finalized or cancelled.
+    function depositOf(uint256 pollId) external view returns (uint256) {
+        return _pollDeposit[pollId];
+    }
+
+    /// @notice Record a poll `VoteGrid` is opening and lock the deposit sent with it.
+    function pollOpened(uint256 pollId, address creator) external payable onlyVoteGrid {
+        require(!creatorAllowlistEnabled || isAllowedCreator[creator], "Creator not allowed");
+        require(maxOpenPolls == 0 || openPollCount[creator] < maxOpenPolls, "Too many open polls");
+        require(msg.value == creationDeposit, "Wrong creation deposit");
+
+        openPollCount[creator]++;
+        _pollCreator[pollId] = creator;
+        if (msg.value > 0) {
+            _pollDeposit[pollId] = msg.value;
+            emit DepositLocked(pollId, creator, msg.value);
+        }
+    }
+
+    /// @notice Record that a poll was finalized, crediting its deposit back to the creator, or cancelled, slashing it.
+    function pollClosed(uint256 pollId, bool cancelled) external onlyVoteGrid {
+        address creator = _pollCreator[pollId];
+        openPollCount[creator]--;
+
+        uint256 deposit = _pollDeposit[pollId];
+        if (deposit == 0) return;
+        _pollDeposit[pollId] = 0;
+        if (cancelled) {
+            slashedBalance += deposit;
+            emit DepositSlashed(pollId, creator, deposit);
+        } else {
+            refunds[creator] += deposit;
+            emit DepositRefunded(pollId, creator, deposit);
+        }
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        if (amount == 0) return;
+        (bool sent, ) = payable(to).call{value: amount}("");
+        require(sent, "ETH transfer failed");
+    }
+}
@@ -0,0 +1,169 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title VoteGridDelegation
+/// @notice Registry where members hand their vote to a delegate, either for every poll or for one poll only.
+/// @dev Kept out of `VoteGrid` for contract size. `VoteGrid` reads it whenever a ballot is cast: a delegate's ballot
+/// counts once more for each delegator who has not voted directly. A per-poll delegation takes precedence over the
+/// global one for that poll. Delegates can require approval of their delegators and remove the ones they did not
+/// approve, so their capped lists cannot be filled with throwaway addresses.
+contract VoteGridDelegation {
+    /// @notice Largest number of delegators a delegate can have in one list, which bounds the gas of their ballot.
+    /// @dev Global and per-poll delegators are separate lists, each capped on its own.
+    uint256 public constant MAX_DELEGATORS = 64;
+
+    mapping(address => address) private _globalDelegate;
+    mapping(address => address[]) private _globalDelegators;
+    /// @dev Position plus one of a delegator in its delegate's list, zero when absent.
+    mapping(address => uint256) private _globalIndex;
+
+    mapping(uint256 => mapping(address => address)) private _pollDelegate;
+    mapping(uint256 => mapping(address => address[])) private _pollDelegators;
+    mapping(uint256 => mapping(address => uint256)) private _pollIndex;
+
+    /// @notice Whether a delegate only accepts delegators it approved, so nobody can fill its lists uninvited.
+    mapping(address => bool) public approvalRequired;
+    /// @notice Delegators each delegate approved; only checked while the delegate requires approval.
+    mapping(address => mapping(address => bool)) public isApprovedDelegator;
+
+    /// @notice A delegator changed its global delegate; the zero address means it undelegated.
+    event DelegateChanged(address indexed delegator, address indexed delegate);
+    /// @notice A delegator changed its delegate for one poll; the zero address means it undelegated.
+    event PollDelegateChanged(uint256 indexed pollId, address indexed delegator, address indexed delegate);
+    /// @notice A delegate started or stopped requiring approval of its delegators.
+    event ApprovalRequiredChanged(address indexed delegate, bool required);
+    /// @notice A delegate approved a delegator, or revoked its approval.
+    event DelegatorApproved(address indexed delegate, address indexed delegator, bool approved);
+
+    /// @notice Let `delegate` vote on your behalf in every poll, replacing any previous global delegate.
+    function delegate(address delegate_) external {
+        _checkDelegate(delegate_);
+        _removeGlobal(msg.sender);
+        _add(_globalDelegators[delegate_], _globalIndex, msg.sender);
+        _globalDelegate[msg.sender] = delegate_;
+        emit DelegateChanged(msg.sender, delegate_);
+    }
+
+    /// @notice Stop your global delegation. Per-poll delegations are unaffected.
+    function undelegate() external {
+        require(_globalDelegate[msg.sender] != address(0), "Not delegated");
+        _removeGlobal(msg.sender);
+        emit DelegateChanged(msg.sender, address(0));
+    }
+
+    /// @notice Let `delegate` vote on your behalf in one poll, overriding your global delegate there.
+    function delegateForPoll(uint256 pollId, address delegate_) external {
+        _checkDelegate(delegate_);
+        _removePoll(pollId, msg.sender);
+        _add(_pollDelegators[pollId][delegate_], _pollIndex[pollId], msg.sender);
+        _pollDelegate[pollId][msg.sender] = delegate_;
+        emit PollDelegateChanged(pollId, msg.sender, delegate_);
+    }
+
+    /// @notice Stop your delegation for one poll; your global delegate, if any, applies there again.
+    function undelegateForPoll(uint256 pollId) external {
+        require(_pollDelegate[pollId][msg.sender] != address(0), "Not delegated");
+        _removePoll(pollId, msg.sender);
+        emit PollDelegateChanged(pollId, msg.sender, address(0));
+    }
+
+    /// @notice Only accept delegators you approved with `setDelegatorsApproved`, or accept anyone again.
+    /// @dev Delegators already in your lists stay; revoke their approval to remove them.
+    function setApprovalRequired(bool required) external {
+        approvalRequired[msg.sender] = required;
+        emit ApprovalRequiredChanged(msg.sender, required);
+    }
+
+    /// @notice Approve delegators, or revoke their approval. Revoking also removes them from your global list, which
+    /// frees their slots, as if they had called `undelegate`.
+    function setDelegatorsApproved(address[] calldata delegators, bool approved) external {
+        for (uint256 i = 0; i < delegators.length; i++) {
+            address delegator = delegators[i];
+            isApprovedDelegator[msg.sender][delegator] = approved;
+            emit DelegatorApproved(msg.sender, delegator, approved);
+            if (!approved && _globalDelegate[delegator] == msg.sender) {
+                _removeGlobal(delegator);
+                emit DelegateChanged(delegator, address(0));
+            }
+        }
+    }
+
+    /// @notice Remove delegators from your list for one poll, as if they had called `undelegateForPoll`.
+    /// @dev They can delegate to you again unless you require approval and have not approved them.
+    function removePollDelegators(uint256 pollId, address[] calldata delegators) external {
+        for (uint256 i = 0; i < delegators.length; i++) {
+            address delegator = delegators[i];
+            if (_pollDelegate[pollId][delegator] != msg.sender) continue;
+            _removePoll(pollId, delegator);
+            emit PollDelegateChanged(pollId, delegator, address(0));
+        }
+    }
+
+    /// @notice Global delegate of an address, or the zero address.
+    function globalDelegateOf(address delegator) external view returns (address) {
+        return _globalDelegate[delegator];
+    }
+
+    /// @notice Delegate that votes for `delegator` in a poll: its per-poll delegate if set, else its global one.
+    function delegateOf(uint256 pollId, address delegator) public view returns (address) {
+        address pollDelegate = _pollDelegate[pollId][delegator];
+        return pollDelegate != address(0) ? pollDelegate : _globalDelegate[delegator];
+    }
+
+    /// @notice Every address whose vote `delegate` casts in a poll: its per-poll delegators, then the global
+    /// delegators that did not pick another delegate for that poll.
+    function delegatorsOf(uint256 pollId, address delegate_) external view returns (address[] memory delegators) {
+        address[] storage pollDelegators = _pollDelegators[pollId][delegate_];
+        address[] storage globalDelegators = _globalDelegators[delegate_];
+        bool[] memory overridden = new bool[](globalDelegators.length);
+        uint256 count = pollDelegators.length;
+        for (uint256 i = 0; i < globalDelegators.length; i++) {
+            overridden[i] = _pollDelegate[pollId][globalDelegators[i]] != address(0);
+            if (!overridden[i]) count++;
+        }
+
+        delegators = new address[](count);
+        count = 0;
+        for (uint256 i = 0; i < pollDelegators.length; i++) {
+            delegators[count++] = pollDelegators[i];
+        }
+        for (uint256 i = 0; i < globalDelegators.length; i++) {
+            if (!overridden[i]) delegators[count++] = globalDelegators[i];
+        }
+    }
+
+    function _checkDelegate(address delegate_) private view {
+        require(delegate_ != address(0) && delegate_ != msg.sender, "Invalid delegate");
+        require(!approvalRequired[delegate_] || isApprovedDelegator[delegate_][msg.sender], "Delegation not approved");
+    }
+
+    function _removeGlobal(address delegator) private {
+        address current = _globalDelegate[delegator];
+        if (current == address(0)) return;
+        _remove(_globalDelegators[current], _globalIndex, delegator);
+        delete _globalDelegate[delegator];
+    }
+
+    function _removePoll(uint256 pollId, address delegator) private {
+        address current = _pollDelegate[pollId][delegator];
+        if (current == address(0)) return;
+        _remove(_pollDelegators[pollId][current], _pollIndex[pollId], delegator);
+        delete _pollDelegate[pollId][delegator];
+    }
+
+    function _add(address[] storage list, mapping(address => uint256) storage index, address delegator) private {
+        require(list.length < MAX_DELEGATORS, "Too many delegators");
+        list.push(delegator);
+        index[delegator] = list.length;
+    }
+
+    /// @dev Swap-and-pop removal, so delegator lists stay unordered.
+    function _remove(address[] storage list, mapping(address => uint256) storage index, address delegator) private {
+        uint256 position = index[delegator] - 1;
+        address last = list[list.length - 1];
+        list[position] = last;
+        index[last] = position + 1;
+        list.pop();
+        delete index[delegator];
+    }
+}
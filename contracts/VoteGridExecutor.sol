@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {VoteGrid} from "./VoteGrid.sol";
+
+/// @title VoteGridExecutor
+/// @notice Runs one contract call per poll option, picked by the published results of a `VoteGrid` poll, so a poll can
+/// drive real parameter changes instead of being purely informational.
+/// @dev Kept out of `VoteGrid` both for contract size and so governed contracts only have to trust this executor. Every
+/// poll shares it, so a target guarding its functions should also check `executingPoll` and that poll's creator.
+contract VoteGridExecutor {
+    /// @notice Contract call run by `execute` when its option wins; a zero `target` makes the option a no-op.
+    struct PollAction {
+        address target;
+        bytes data;
+    }
+
+    /// @notice Poll contract whose verified tallies decide which action runs.
+    VoteGrid public immutable voteGrid;
+
+    mapping(uint256 => PollAction[]) private _actions;
+    mapping(uint256 => bool) private _executed;
+    /// @dev Identifier plus one of the poll whose action is running, zero outside `execute`.
+    uint256 private _executingPoll;
+
+    event PollActionsSet(uint256 indexed pollId);
+    event PollExecuted(uint256 indexed pollId, uint256 option, address target);
+
+    constructor(VoteGrid voteGrid_) {
+        voteGrid = voteGrid_;
+    }
+
+    /// @notice Attach one contract call per option of a poll you created, before it opens.
+    /// @dev Only polls with a single winning option whose tallies can be published qualify: ranked polls count
+    /// rankings, surveys have a winner per question, numeric polls have no winner and winner-only polls never reveal
+    /// their counts. Setting actions again replaces the previous ones.
+    /// @param pollId Identifier of the poll.
+    /// @param targets Contract called for each option, in option order; the zero address for no action.
+    /// @param calldatas Calldata sent to each target, in the same order.
+    function setActions(uint256 pollId, address[] calldata targets, bytes[] calldata calldatas) external {
+        (, uint64 startTime, , , address creator, uint256 optionCount, bool cancelled) = voteGrid.getPollMetadata(
+            pollId
+        );
+        require(msg.sender == creator, "Only creator");
+        require(!cancelled, "Poll cancelled");
+        require(block.timestamp < startTime, "Poll already started");
+
+        VoteGrid.PollSettings memory settings = voteGrid.getPollSettings(pollId);
+        require(
+            settings.ballotType != VoteGrid.BallotType.Ranked &&
+                settings.ballotType != VoteGrid.BallotType.Survey &&
+                settings.ballotType != VoteGrid.BallotType.Numeric &&
+                settings.reveal == VoteGrid.ResultReveal.Tallies,
+            "Poll results cannot trigger actions"
+        );
+        require(targets.length == optionCount && calldatas.length == optionCount, "One action per option");
+
+        PollAction[] storage actions = _actions[pollId];
+        delete _actions[pollId];
+        for (uint256 i = 0; i < optionCount; i++) {
+            actions.push(PollAction({target: targets[i], data: calldatas[i]}));
+        }
+
+        emit PollActionsSet(pollId);
+    }
+
+    /// @notice Run the action of the winning option once the poll's tallies are published. Anyone may call it.
+    /// @dev The winner is read from the tallies `VoteGrid` verified against the KMS proof, so no decryption is trusted
+    /// here. A tie runs nothing. If the action reverts, the whole call reverts and the poll can be executed again.
+    /// @param pollId Identifier of the poll.
+    function execute(uint256 pollId) external {
+        PollAction[] storage actions = _actions[pollId];
+        require(actions.length > 0, "Poll has no actions");
+        require(!_executed[pollId], "Poll already executed");
+
+        uint64[] memory counts = voteGrid.getClearResults(pollId);
+        uint256 winner = 0;
+        bool tie = false;
+        for (uint256 i = 1; i < counts.length; i++) {
+            if (counts[i] > counts[winner]) {
+                winner = i;
+                tie = false;
+            } else if (counts[i] == counts[winner]) {
+                tie = true;
+            }
+        }
+        require(!tie, "Tied result");
+
+        _executed[pollId] = true;
+        PollAction storage action = actions[winner];
+        if (action.target != address(0)) {
+            // Restored afterwards in case an action executes another poll.
+            uint256 outerPoll = _executingPoll;
+            _executingPoll = pollId + 1;
+            (bool success, ) = action.target.call(action.data);
+            require(success, "Action failed");
+            _executingPoll = outerPoll;
+        }
+
+        emit PollExecuted(pollId, winner, action.target);
+    }
+
+    /// @notice Return the per-option actions of a poll and whether `execute` already ran; empty if it has none.
+    function getActions(
+        uint256 pollId
+    ) external view returns (address[] memory targets, bytes[] memory calldatas, bool executed) {
+        PollAction[] storage actions = _actions[pollId];
+        uint256 count = actions.length;
+        targets = new address[](count);
+        calldatas = new bytes[](count);
+        for (uint256 i = 0; i < count; i++) {
+            targets[i] = actions[i].target;
+            calldatas[i] = actions[i].data;
+        }
+        executed = _executed[pollId];
+    }
+
+    /// @notice The poll whose winning action is running, so a target can tell which poll called it.
+    /// @return active Whether `execute` is running an action right now.
+    /// @return pollId Identifier of that poll; zero when `active` is false.
+    function executingPoll() external view returns (bool active, uint256 pollId) {
+        active = _executingPoll != 0;
+        if (active) pollId = _executingPoll - 1;
+    }
+}
@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {VoteGrid} from "./VoteGrid.sol";
+
+/// @title VoteGridLens
+/// @notice Read-only batched queries over `VoteGrid`, so a client can list a filtered page of polls in one call
+/// instead of reading every poll one by one.
+/// @dev Kept out of `VoteGrid` for contract size. Every query scans all polls through `VoteGrid`'s own views, which is
+/// cheap for `eth_call` but not meant to be called from transactions.
+contract VoteGridLens {
+    /// @notice Lifecycle stage of a poll, derived from its flags and time window.
+    /// @dev `Ended` polls are past their end time but not finalized yet; polls that failed their quorum count as
+    /// `Finalized`.
+    enum PollStatus {
+        Scheduled,
+        Active,
+        Ended,
+        Finalized,
+        Cancelled
+    }
+
+    /// @notice Which polls a query returns. Every set field must match.
+    /// @dev `statuses` is a bit mask with bit `i` set for `PollStatus(i)`; zero matches every status. A non-zero
+    /// `creator` keeps that creator's polls only. `voter` fills `PollSummary.hasVoted`, and with `votedOnly` keeps only
+    /// the polls that address voted in. A non-empty `category` keeps the polls in that category and a non-empty `tag`
+    /// the polls carrying that tag; both compare exactly.
+    struct PollFilter {
+        uint8 statuses;
+        address creator;
+        address voter;
+        bool votedOnly;
+        string category;
+        string tag;
+    }
+
+    /// @notice Everything a poll list shows about a poll without reading it separately.
+    struct PollSummary {
+        uint256 pollId;
+        string name;
+        uint64 startTime;
+        uint64 endTime;
+        address creator;
+        uint256 optionCount;
+        PollStatus status;
+        uint32 participantCount;
+        bool hasVoted;
+        string category;
+        string[] tags;
+    }
+
+    /// @notice Largest page `getPolls` returns; larger limits are lowered to it.
+    uint256 public constant MAX_PAGE = 100;
+
+    /// @notice Poll contract being queried.
+    VoteGrid public immutable voteGrid;
+
+    constructor(VoteGrid voteGrid_) {
+        voteGrid = voteGrid_;
+    }
+
+    /// @notice Return one page of the polls matching `filter`, newest first.
+    /// @param filter Status, creator and voter conditions.
+    /// @param offset Number of matching polls to skip.
+    /// @param limit Largest number of polls to return; at most `MAX_PAGE` are.
+    /// @return page Summaries of the matching polls in the requested range.
+    /// @return matchCount Number of polls matching `filter` in total, for page counts.
+    function getPolls(
+        PollFilter calldata filter,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PollSummary[] memory page, uint256 matchCount) {
+        uint256 total = voteGrid.totalPolls();
+        // The page is allocated up front, so it is sized by the polls that can be on it rather than by the caller.
+        uint256 remaining = offset < total ? total - offset : 0;
+        if (limit > remaining) limit = remaining;
+        if (limit > MAX_PAGE) limit = MAX_PAGE;
+        PollSummary[] memory found = new PollSummary[](limit);
+        uint256 foundCount = 0;
+        for (uint256 pollId = total; pollId > 0; ) {
+            pollId--;
+            (bool matches, PollSummary memory summary) = _summarize(pollId, filter);
+            if (!matches) continue;
+
+            if (matchCount >= offset && foundCount < limit) {
+                found[foundCount++] = summary;
+            }
+            matchCount++;
+        }
+
+        page = new PollSummary[](foundCount);
+        for (uint256 i = 0; i < foundCount; i++) {
+            page[i] = found[i];
+        }
+    }
+
+    /// @notice Return the summaries of specific polls, e.g. to refresh the cards on screen.
+    /// @param pollIds Identifiers of existing polls.
+    /// @param voter Address whose participation fills `hasVoted`; the zero address to skip it.
+    function getSummaries(
+        uint256[] calldata pollIds,
+        address voter
+    ) external view returns (PollSummary[] memory summaries) {
+        PollFilter memory filter = PollFilter({
+            statuses: 0,
+            creator: address(0),
+            voter: voter,
+            votedOnly: false,
+            category: "",
+            tag: ""
+        });
+        summaries = new PollSummary[](pollIds.length);
+        for (uint256 i = 0; i < pollIds.length; i++) {
+            (, summaries[i]) = _summarize(pollIds[i], filter);
+        }
+    }
+
+    /// @dev Check a poll against `filter`; the summary is only filled in when it matches.
+    function _summarize(
+        uint256 pollId,
+        PollFilter memory filter
+    ) private view returns (bool matches, PollSummary memory summary) {
+        (
+            string memory name,
+            uint64 startTime,
+            uint64 endTime,
+            bool finalized,
+            address creator,
+            uint256 optionCount,
+            bool cancelled
+        ) = voteGrid.getPollMetadata(pollId);
+        if (filter.creator != address(0) && creator != filter.creator) return (false, summary);
+
+        PollStatus status = _status(startTime, endTime, finalized, cancelled);
+        if (filter.statuses != 0 && (filter.statuses & (1 << uint8(status))) == 0) return (false, summary);
+
+        VoteGrid.PollDetails memory details = voteGrid.getPollDetails(pollId);
+        if (!_hasLabels(details, filter)) return (false, summary);
+
+        bool hasVoted = filter.voter != address(0) && voteGrid.hasAddressVoted(pollId, filter.voter);
+        if (filter.votedOnly && !hasVoted) return (false, summary);
+
+        (uint32 participantCount, , ) = voteGrid.getTurnout(pollId);
+        summary = PollSummary({
+            pollId: pollId,
+            name: name,
+            startTime: startTime,
+            endTime: endTime,
+            creator: creator,
+            optionCount: optionCount,
+            status: status,
+            participantCount: participantCount,
+            hasVoted: hasVoted,
+            category: details.category,
+            tags: details.tags
+        });
+        return (true, summary);
+    }
+
+    function _hasLabels(VoteGrid.PollDetails memory details, PollFilter memory filter) private pure returns (bool) {
+        if (
+            bytes(filter.category).length > 0 && keccak256(bytes(details.category)) != keccak256(bytes(filter.category))
+        ) {
+            return false;
+        }
+        if (bytes(filter.tag).length == 0) return true;
+        for (uint256 i = 0; i < details.tags.length; i++) {
+            if (keccak256(bytes(details.tags[i])) == keccak256(bytes(filter.tag))) return true;
+        }
+        return false;
+    }
+
+    function _status(
+        uint64 startTime,
+        uint64 endTime,
+        bool finalized,
+        bool cancelled
+    ) private view returns (PollStatus) {
+        if (cancelled) return PollStatus.Cancelled;
+        if (finalized) return PollStatus.Finalized;
+        if (block.timestamp < startTime) return PollStatus.Scheduled;
+        if (block.timestamp < endTime) return PollStatus.Active;
+        return PollStatus.Ended;
+    }
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title ISnapshotToken
+/// @notice ERC-20 token that can report an account's balance as of a past block.
+interface ISnapshotToken {
+    /// @notice Token decimals, used to count one vote per whole token.
+    function decimals() external view returns (uint8);
+
+    /// @notice Balance of `account` at the end of block `blockNumber`.
+    function balanceOfAt(address account, uint256 blockNumber) external view returns (uint256);
+}
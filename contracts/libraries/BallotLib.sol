@@ -0,0 +1,252 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {
+    FHE,
+    ebool,
+    euint8,
+    euint32,
+    euint64,
+    externalEbool,
+    externalEuint32,
+    externalEuint64
+} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title BallotLib
+/// @notice Turns each ballot type's encrypted input into one encrypted increment per poll counter, finds the winner
+/// of a winner-only poll and checks published tallies.
+/// @dev Deployed once and linked into `VoteGrid`. Its external functions run through `DELEGATECALL`, so every
+/// ciphertext they create belongs to the calling contract and the voter remains `msg.sender` for input proofs.
+library BallotLib {
+    /// @notice Increments for a single-choice ballot encrypted as an option index.
+    /// @dev An index outside the options matches no counter and counts for nothing.
+    function singleChoice(
+        externalEuint32 encryptedChoice,
+        bytes calldata inputProof,
+        uint256 optionCount,
+        uint64 voteWeight
+    ) external returns (euint64[] memory increments) {
+        euint32 choice = FHE.fromExternal(encryptedChoice, inputProof);
+        increments = new euint64[](optionCount);
+        _choose(increments, 0, optionCount, choice, FHE.asEuint64(voteWeight));
+    }
+
+    /// @notice Increments for a survey ballot: a single-choice answer per question, each landing in that question's
+    /// range of counters.
+    /// @dev An answer outside its question matches no counter, so only that question counts for nothing.
+    function survey(
+        externalEuint32[] calldata encryptedAnswers,
+        bytes calldata inputProof,
+        uint256[] memory questionSizes,
+        uint64 voteWeight
+    ) external returns (euint64[] memory increments) {
+        uint256 counterCount;
+        for (uint256 q = 0; q < questionSizes.length; q++) {
+            counterCount += questionSizes[q];
+        }
+        increments = new euint64[](counterCount);
+
+        euint64 weight = FHE.asEuint64(voteWeight);
+        uint256 offset;
+        for (uint256 q = 0; q < questionSizes.length; q++) {
+            euint32 answer = FHE.fromExternal(encryptedAnswers[q], inputProof);
+            _choose(increments, offset, questionSizes[q], answer, weight);
+            offset += questionSizes[q];
+        }
+    }
+
+    /// @notice Increments for a single-choice ballot encoded as one encrypted flag per option.
+    /// @dev A ballot with zero or several flags set counts for nothing.
+    function oneHot(
+        externalEbool[] calldata encryptedChoice,
+        bytes calldata inputProof,
+        uint64 voteWeight
+    ) external returns (euint64[] memory increments) {
+        (ebool[] memory flags, ebool valid) = _readOneHot(encryptedChoice, inputProof);
+
+        // Unweighted ballots add the flag itself; weighted ballots gate the weight once and select it per option.
+        euint64 zero = FHE.asEuint64(0);
+        euint64 weight = voteWeight == 1 ? zero : FHE.select(valid, FHE.asEuint64(voteWeight), zero);
+        uint256 optionCount = flags.length;
+        increments = new euint64[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            increments[i] = voteWeight == 1
+                ? FHE.asEuint64(FHE.and(flags[i], valid))
+                : FHE.select(flags[i], weight, zero);
+        }
+    }
+
+    /// @notice Increments for an allocation ballot: the amounts themselves, or all zeros if they exceed the allowance.
+    /// @dev Overspending is not reverted, so an observer cannot learn anything about the allowance or the split.
+    function allocation(
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof,
+        euint64 allowance
+    ) external returns (euint64[] memory amounts) {
+        uint256 optionCount = encryptedAmounts.length;
+        amounts = new euint64[](optionCount);
+        euint64 total = FHE.asEuint64(0);
+        ebool withinRange = FHE.asEbool(true);
+        for (uint256 i = 0; i < optionCount; i++) {
+            amounts[i] = FHE.fromExternal(encryptedAmounts[i], inputProof);
+            euint64 nextTotal = FHE.add(total, amounts[i]);
+            // A wrapped sum would be smaller than the running total.
+            withinRange = FHE.and(withinRange, FHE.ge(nextTotal, total));
+            total = nextTotal;
+        }
+        ebool valid = FHE.and(withinRange, FHE.le(total, allowance));
+
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < optionCount; i++) {
+            amounts[i] = FHE.select(valid, amounts[i], zero);
+        }
+    }
+
+    /// @notice Increments for an approval ballot: the voter's weight on every approved option.
+    function approval(
+        externalEbool[] calldata encryptedSelections,
+        bytes calldata inputProof,
+        uint64 voteWeight
+    ) external returns (euint64[] memory increments) {
+        euint64 weight = FHE.asEuint64(voteWeight);
+        euint64 zero = FHE.asEuint64(0);
+        uint256 optionCount = encryptedSelections.length;
+        increments = new euint64[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            ebool approved = FHE.fromExternal(encryptedSelections[i], inputProof);
+            increments[i] = FHE.select(approved, weight, zero);
+        }
+    }
+
+    /// @notice Increments for a ranked ballot: the voter's weight on the counter of their ranking.
+    /// @dev An index outside the rankings matches no counter and counts for nothing.
+    function ranked(
+        euint8 ranking,
+        uint256 counterCount,
+        uint64 voteWeight
+    ) external returns (euint64[] memory increments) {
+        euint64 weight = FHE.asEuint64(voteWeight);
+        euint64 zero = FHE.asEuint64(0);
+        increments = new euint64[](counterCount);
+        for (uint256 i = 0; i < counterCount; i++) {
+            ebool matches = FHE.eq(ranking, FHE.asEuint8(uint8(i)));
+            increments[i] = FHE.select(matches, weight, zero);
+        }
+    }
+
+    /// @notice Increments for a numeric ballot: the voter's weight on the bucket of the value and the value times the
+    /// weight on the sum counter, which follows the `bucketCount` bucket counters.
+    /// @dev The value is first clamped to `[minValue, maxValue]`. Bucket `i` starts at
+    /// `minValue + i * (maxValue - minValue + 1) / bucketCount`, so buckets split the range as evenly as possible.
+    function numeric(
+        externalEuint32 encryptedValue,
+        bytes calldata inputProof,
+        uint32 minValue,
+        uint32 maxValue,
+        uint256 bucketCount,
+        uint64 voteWeight
+    ) external returns (euint64[] memory increments) {
+        euint32 value = FHE.min(FHE.max(FHE.fromExternal(encryptedValue, inputProof), minValue), maxValue);
+        euint64 weight = FHE.asEuint64(voteWeight);
+        euint64 zero = FHE.asEuint64(0);
+
+        increments = new euint64[](bucketCount + 1);
+        uint256 span = uint256(maxValue - minValue) + 1;
+        // A value is in bucket `i` when it reached that bucket's start but not the next one's.
+        ebool reached = FHE.asEbool(true);
+        for (uint256 i = 0; i < bucketCount; i++) {
+            ebool reachedNext = i + 1 == bucketCount
+                ? FHE.asEbool(false)
+                : FHE.ge(value, uint32(minValue + ((i + 1) * span) / bucketCount));
+            increments[i] = FHE.select(FHE.and(reached, FHE.not(reachedNext)), weight, zero);
+            reached = reachedNext;
+        }
+        increments[bucketCount] = FHE.mul(FHE.asEuint64(value), voteWeight);
+    }
+
+    /// @notice Part of a delegate's ballot that one delegator accounts for: the delegator's weight on every counter the
+    /// ballot added to, zero elsewhere.
+    /// @dev Every ballot type except allocation adds either its whole weight or nothing to a counter, so a non-zero
+    /// counter always holds the delegator's share.
+    function delegatedShare(
+        euint64[] memory ballot,
+        uint64 delegatorWeight
+    ) external returns (euint64[] memory shares) {
+        euint64 weight = FHE.asEuint64(delegatorWeight);
+        euint64 zero = FHE.asEuint64(0);
+        uint256 counterCount = ballot.length;
+        shares = new euint64[](counterCount);
+        for (uint256 i = 0; i < counterCount; i++) {
+            shares[i] = FHE.select(FHE.ne(ballot[i], zero), weight, zero);
+        }
+    }
+
+    /// @notice Homomorphic argmax over option counters; ties go to the lowest index.
+    /// @return winner Index of the option with the most votes.
+    /// @return tie Whether another option had as many votes as the winner.
+    function argmax(euint64[] memory counts) external returns (euint8 winner, ebool tie) {
+        euint64 best = counts[0];
+        winner = FHE.asEuint8(0);
+        tie = FHE.asEbool(false);
+        uint256 optionCount = counts.length;
+        for (uint256 i = 1; i < optionCount; i++) {
+            ebool ahead = FHE.gt(counts[i], best);
+            // A strictly higher count clears any earlier tie; an equal one ties with the current leader.
+            tie = FHE.and(FHE.not(ahead), FHE.or(tie, FHE.eq(counts[i], best)));
+            best = FHE.select(ahead, counts[i], best);
+            winner = FHE.select(ahead, FHE.asEuint8(uint8(i)), winner);
+        }
+    }
+
+    /// @notice Revert unless `clearCounts` are the decrypted values of `counts`, as signed by the KMS in
+    /// `decryptionProof`.
+    function checkTallies(
+        euint64[] memory counts,
+        uint64[] calldata clearCounts,
+        bytes calldata decryptionProof
+    ) external {
+        uint256 counterCount = counts.length;
+        require(clearCounts.length == counterCount, "One count per counter");
+
+        bytes32[] memory handles = new bytes32[](counterCount);
+        for (uint256 i = 0; i < counterCount; i++) {
+            handles[i] = FHE.toBytes32(counts[i]);
+        }
+        // Cleartexts are verified as consecutive 32-byte words, which is how packed arrays are encoded.
+        FHE.checkSignatures(handles, abi.encodePacked(clearCounts), decryptionProof);
+    }
+
+    /// @dev Put `weight` on the counter at `offset + choice` among `optionCount` counters and zero on the others.
+    function _choose(
+        euint64[] memory increments,
+        uint256 offset,
+        uint256 optionCount,
+        euint32 choice,
+        euint64 weight
+    ) private {
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < optionCount; i++) {
+            ebool matches = FHE.eq(choice, FHE.asEuint32(uint32(i)));
+            // The weight is public, but which option it lands on stays encrypted.
+            increments[offset + i] = FHE.select(matches, weight, zero);
+        }
+    }
+
+    /// @dev Decrypt-free check that exactly one flag is set, tracking whether one and whether two flags were seen.
+    function _readOneHot(
+        externalEbool[] calldata encryptedFlags,
+        bytes calldata inputProof
+    ) private returns (ebool[] memory flags, ebool exactlyOne) {
+        uint256 count = encryptedFlags.length;
+        flags = new ebool[](count);
+        flags[0] = FHE.fromExternal(encryptedFlags[0], inputProof);
+        ebool seenOne = flags[0];
+        ebool seenTwo = FHE.asEbool(false);
+        for (uint256 i = 1; i < count; i++) {
+            flags[i] = FHE.fromExternal(encryptedFlags[i], inputProof);
+            seenTwo = FHE.or(seenTwo, FHE.and(seenOne, flags[i]));
+            seenOne = FHE.or(seenOne, flags[i]);
+        }
+        exactlyOne = FHE.and(seenOne, FHE.not(seenTwo));
+    }
+}
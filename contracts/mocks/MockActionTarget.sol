@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {VoteGridExecutor} from "../VoteGridExecutor.sol";
+
+/// @title MockActionTarget
+/// @notice Governed parameter that only changes through the winning action of a poll created by its owner, used to
+/// test `VoteGridExecutor`.
+contract MockActionTarget {
+    VoteGridExecutor public immutable executor;
+    address public immutable owner;
+    uint256 public value;
+
+    event ValueChanged(uint256 indexed pollId, uint256 value);
+
+    constructor(VoteGridExecutor executor_) {
+        executor = executor_;
+        owner = msg.sender;
+    }
+
+    /// @notice Set the parameter; callable only by `executor` while it executes one of the owner's polls.
+    function setValue(uint256 newValue) external {
+        require(msg.sender == address(executor), "Only executor");
+        (bool active, uint256 pollId) = executor.executingPoll();
+        require(active, "No poll executing");
+        (, , , , address creator, , ) = executor.voteGrid().getPollMetadata(pollId);
+        require(creator == owner, "Poll not created by owner");
+        require(newValue > 0, "Value must be positive");
+
+        value = newValue;
+        emit ValueChanged(pollId, newValue);
+    }
+}
@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ISnapshotToken} from "../interfaces/ISnapshotToken.sol";
+
+/// @title MockSnapshotToken
+/// @notice Minimal mintable ERC-20 with per-block balance checkpoints, used to test token-weighted polls.
+contract MockSnapshotToken is ISnapshotToken {
+    struct Checkpoint {
+        uint64 blockNumber;
+        uint256 balance;
+    }
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 18;
+    uint256 public totalSupply;
+
+    mapping(address => Checkpoint[]) private _checkpoints;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    /// @notice Mint `amount` tokens to `to`.
+    function mint(address to, uint256 amount) external {
+        totalSupply += amount;
+        _writeCheckpoint(to, balanceOf(to) + amount);
+        emit Transfer(address(0), to, amount);
+    }
+
+    /// @notice Transfer `amount` tokens from the caller to `to`.
+    function transfer(address to, uint256 amount) external returns (bool) {
+        uint256 senderBalance = balanceOf(msg.sender);
+        require(senderBalance >= amount, "Insufficient balance");
+        _writeCheckpoint(msg.sender, senderBalance - amount);
+        _writeCheckpoint(to, balanceOf(to) + amount);
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    /// @notice Current balance of `account`.
+    function balanceOf(address account) public view returns (uint256) {
+        uint256 length = _checkpoints[account].length;
+        return length == 0 ? 0 : _checkpoints[account][length - 1].balance;
+    }
+
+    /// @inheritdoc ISnapshotToken
+    function balanceOfAt(address account, uint256 blockNumber) external view returns (uint256) {
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        for (uint256 i = checkpoints.length; i > 0; i--) {
+            if (checkpoints[i - 1].blockNumber <= blockNumber) {
+                return checkpoints[i - 1].balance;
+            }
+        }
+        return 0;
+    }
+
+    function _writeCheckpoint(address account, uint256 balance) private {
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        uint256 length = checkpoints.length;
+        if (length > 0 && checkpoints[length - 1].blockNumber == block.number) {
+            checkpoints[length - 1].balance = balance;
+        } else {
+            checkpoints.push(Checkpoint({blockNumber: uint64(block.number), balance: balance}));
+        }
+    }
+}
@@ -1,16 +1,100 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseEther } from "ethers";
 import { DeployFunction } from "hardhat-deploy/types";
+import { vars } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+// Largest number of options per poll; override with `npx hardhat vars set VOTEGRID_MAX_OPTIONS <n>`.
+const MAX_OPTIONS = Number(vars.get("VOTEGRID_MAX_OPTIONS", "16"));
+// Spam protection for poll creation; the owner (the deployer) can change all of it later on VoteGridCreatorPolicy.
+// ETH locked with each new poll, refunded when it is finalized and slashed when it is cancelled; "0" for none.
+const CREATION_DEPOSIT = parseEther(vars.get("VOTEGRID_CREATION_DEPOSIT", "0"));
+// Largest number of polls one address may have open (not yet finalized or cancelled); "0" for no cap.
+const MAX_OPEN_POLLS = Number(vars.get("VOTEGRID_MAX_OPEN_POLLS", "0"));
+// Comma-separated addresses allowed to create polls; leave empty to let anyone create them.
+const CREATORS = vars
+  .get("VOTEGRID_CREATORS", "")
+  .split(",")
+  .map((creator) => creator.trim())
+  .filter(Boolean);
+
+// Frontend config whose `*_ADDRESS` constants a Sepolia deployment rewrites, since the app only targets Sepolia.
+const FRONTEND_CONFIG = path.join(__dirname, "..", "home", "src", "config", "contracts.ts");
+
+function writeFrontendAddresses(addresses: Record<string, string>) {
+  let config = fs.readFileSync(FRONTEND_CONFIG, "utf8");
+  for (const [name, address] of Object.entries(addresses)) {
+    const pattern = new RegExp(`export const ${name} = '0x[0-9a-fA-F]{40}';`);
+    if (!pattern.test(config)) {
+      throw new Error(`${name} not found in ${FRONTEND_CONFIG}`);
+    }
+    config = config.replace(pattern, `export const ${name} = '${address}';`);
+  }
+  fs.writeFileSync(FRONTEND_CONFIG, config);
+  console.log(`Wrote the contract addresses into ${FRONTEND_CONFIG}`);
+}
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute } = hre.deployments;
+
+  // Ballot encoding lives in a linked library to keep VoteGrid under the contract size limit.
+  const ballotLib = await deploy("BallotLib", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedDelegation = await deploy("VoteGridDelegation", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`VoteGridDelegation contract: `, deployedDelegation.address);
+
+  const deployedPolicy = await deploy("VoteGridCreatorPolicy", {
+    from: deployer,
+    args: [CREATION_DEPOSIT, MAX_OPEN_POLLS, CREATORS],
+    log: true,
+  });
+
+  console.log(`VoteGridCreatorPolicy contract: `, deployedPolicy.address);
 
   const deployedVoteGrid = await deploy("VoteGrid", {
     from: deployer,
+    args: [MAX_OPTIONS, deployedDelegation.address, deployedPolicy.address],
+    libraries: { BallotLib: ballotLib.address },
     log: true,
   });
 
   console.log(`VoteGrid contract: `, deployedVoteGrid.address);
+
+  // Polls cannot be created until the policy knows which VoteGrid reports to it.
+  await execute("VoteGridCreatorPolicy", { from: deployer, log: true }, "setVoteGrid", deployedVoteGrid.address);
+
+  const deployedExecutor = await deploy("VoteGridExecutor", {
+    from: deployer,
+    args: [deployedVoteGrid.address],
+    log: true,
+  });
+
+  console.log(`VoteGridExecutor contract: `, deployedExecutor.address);
+
+  const deployedLens = await deploy("VoteGridLens", {
+    from: deployer,
+    args: [deployedVoteGrid.address],
+    log: true,
+  });
+
+  console.log(`VoteGridLens contract: `, deployedLens.address);
+
+  if (hre.network.name === "sepolia") {
+    writeFrontendAddresses({
+      CONTRACT_ADDRESS: deployedVoteGrid.address,
+      EXECUTOR_ADDRESS: deployedExecutor.address,
+      LENS_ADDRESS: deployedLens.address,
+    });
+  }
 };
 export default func;
 func.id = "deploy_voteGrid"; // id required to prevent reexecution
@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { Contract } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useAccount, useReadContract } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { toBigInt, userDecryptHandles } from '../utils/userDecrypt';
+
+type AllocationBallotProps = {
+  pollId: bigint;
+  options: readonly string[];
+  instance: FhevmInstance | null;
+  canVote: boolean;
+  eligibilityProof: readonly string[];
+  /** The voter already voted in a re-votable poll, so submitting replaces their ballot. */
+  isChange: boolean;
+  onVoted: () => void;
+};
+
+const ZERO_HANDLE = `0x${'0'.repeat(64)}`;
+
+export function AllocationBallot({
+  pollId,
+  options,
+  instance,
+  canVote,
+  eligibilityProof,
+  isChange,
+  onVoted,
+}: AllocationBallotProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+
+  const [allowance, setAllowance] = useState<number | null>(null);
+  const [points, setPoints] = useState<number[]>(() => options.map(() => 0));
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [isVoting, setIsVoting] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  const { data: allowanceHandle } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getAllowance',
+    args: address ? [pollId, address] : undefined,
+    query: { enabled: Boolean(address) },
+  });
+
+  const hasAllowance = Boolean(allowanceHandle && allowanceHandle !== ZERO_HANDLE);
+  const spent = useMemo(() => points.reduce((sum, value) => sum + value, 0), [points]);
+
+  const revealAllowance = async () => {
+    setAlert('');
+    if (!instance || !allowanceHandle) return;
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsRevealing(true);
+    try {
+      const clearValues = await userDecryptHandles(instance, signer, [allowanceHandle]);
+      setAllowance(Number(toBigInt(clearValues[allowanceHandle])));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Could not decrypt your allowance';
+      setAlert(message);
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  // Each slider can only use what the other options have left over.
+  const updatePoints = (idx: number, value: number) => {
+    if (allowance === null) return;
+    setPoints((prev) => {
+      const others = prev.reduce((sum, current, i) => (i === idx ? sum : sum + current), 0);
+      return prev.map((current, i) => (i === idx ? Math.min(value, allowance - others) : current));
+    });
+  };
+
+  const submit = async () => {
+    setAlert('');
+    if (!instance || !address || allowance === null) return;
+    if (spent === 0) {
+      setAlert('Distribute at least one point.');
+      return;
+    }
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsVoting(true);
+    try {
+      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      points.forEach((value) => input.add64(value));
+      const encrypted = await input.encrypt();
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.castAllocationVote(pollId, encrypted.handles, encrypted.inputProof, eligibilityProof);
+      await tx.wait();
+      setPoints(options.map(() => 0));
+      onVoted();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Vote failed';
+      setAlert(message);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  if (!hasAllowance) {
+    return <div className="panel__empty">You have no voting allowance in this poll.</div>;
+  }
+
+  if (allowance === null) {
+    return (
+      <div className="poll-card__actions">
+        <button className="ghost-btn" onClick={revealAllowance} disabled={!instance || isRevealing}>
+          {isRevealing ? 'Decrypting...' : 'Reveal my allowance'}
+        </button>
+        {alert && <div className="alert alert--error">{alert}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="allocation">
+      <p className="meta__label">
+        {spent} of {allowance} points distributed
+      </p>
+      {options.map((opt, idx) => (
+        <label key={idx} className="allocation__row">
+          <span className="option__name">{opt}</span>
+          <input
+            type="range"
+            min={0}
+            max={allowance}
+            value={points[idx]}
+            onChange={(e) => updatePoints(idx, Number(e.target.value))}
+            disabled={!canVote}
+          />
+          <span className="allocation__value">{points[idx]}</span>
+        </label>
+      ))}
+      {alert && <div className="alert alert--error">{alert}</div>}
+      <button className="primary-btn" onClick={submit} disabled={!canVote || isVoting || spent === 0}>
+        {isVoting ? 'Submitting...' : isChange ? 'Change vote' : 'Cast encrypted allocation'}
+      </button>
+    </div>
+  );
+}
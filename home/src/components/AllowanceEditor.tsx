@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Contract, getAddress, isAddress } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useAccount } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+
+type AllowanceEditorProps = {
+  pollId: bigint;
+  instance: FhevmInstance | null;
+  onAssigned: () => void;
+};
+
+// Relayer input proofs carry at most 2048 bits, i.e. 32 encrypted 64-bit values.
+const MAX_EUINT64_PER_INPUT = 32;
+
+const parseRows = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.split(',').map((cell) => cell.trim()))
+    .filter(([voter]) => voter && isAddress(voter))
+    .map(([voter, points]) => {
+      if (!/^\d+$/.test(points ?? '')) {
+        throw new Error(`Missing or invalid points for ${voter}`);
+      }
+      return { voter: getAddress(voter), points: BigInt(points) };
+    });
+
+export function AllowanceEditor({ pollId, instance, onAssigned }: AllowanceEditorProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+
+  const [text, setText] = useState('');
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [status, setStatus] = useState('');
+  const [alert, setAlert] = useState('');
+
+  const assign = async () => {
+    setAlert('');
+    setStatus('');
+    if (!instance || !address) return;
+
+    let rows: { voter: string; points: bigint }[];
+    try {
+      rows = parseRows(text);
+    } catch (err) {
+      setAlert(err instanceof Error ? err.message : 'Invalid allowance list.');
+      return;
+    }
+    if (rows.length === 0) {
+      setAlert('Add at least one "address,points" row.');
+      return;
+    }
+
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsAssigning(true);
+    try {
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      for (let offset = 0; offset < rows.length; offset += MAX_EUINT64_PER_INPUT) {
+        const chunk = rows.slice(offset, offset + MAX_EUINT64_PER_INPUT);
+        const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+        chunk.forEach(({ points }) => input.add64(points));
+        const encrypted = await input.encrypt();
+        const tx = await contract.setAllowances(
+          pollId,
+          chunk.map(({ voter }) => voter),
+          encrypted.handles,
+          encrypted.inputProof,
+        );
+        await tx.wait();
+        setStatus(`Assigned ${Math.min(offset + chunk.length, rows.length)} of ${rows.length} allowances.`);
+      }
+      setText('');
+      onAssigned();
+    } catch (err) {
+      setAlert(err instanceof Error ? err.message : 'Assigning allowances failed');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  return (
+    <div className="field">
+      <span className="field__label">Private allowances (one "address,points" row per voter)</span>
+      <textarea
+        className="field__input field__input--textarea"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'0xabc...,10\n0xdef...,5'}
+        rows={3}
+      />
+      {status && <div className="field__hint">{status}</div>}
+      {alert && <div className="alert alert--error">{alert}</div>}
+      <button className="ghost-btn ghost-btn--inline" onClick={assign} disabled={!instance || isAssigning}>
+        {isAssigning ? 'Encrypting...' : 'Assign encrypted allowances'}
+      </button>
+    </div>
+  );
+}
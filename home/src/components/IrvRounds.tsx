@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { instantRunoff } from '@shared/irv';
+
+type IrvRoundsProps = {
+  options: readonly string[];
+  rankingCounts: readonly bigint[];
+};
+
+export function IrvRounds({ options, rankingCounts }: IrvRoundsProps) {
+  const result = useMemo(() => {
+    try {
+      return instantRunoff(options.length, rankingCounts);
+    } catch {
+      return null;
+    }
+  }, [options, rankingCounts]);
+
+  if (!result) {
+    return <div className="alert alert--error">Decrypted results do not match this ranked poll.</div>;
+  }
+
+  return (
+    <div className="rounds">
+      <p className="meta__label">Instant-runoff rounds</p>
+      {result.rounds.map((round, idx) => (
+        <div key={idx} className="rounds__row">
+          <span className="ranking__position">{idx + 1}</span>
+          <span className="meta__value">
+            {round.tallies
+              .map((votes, option) => (votes === null ? null : `${options[option]}: ${votes}`))
+              .filter(Boolean)
+              .join(' · ')}
+          </span>
+          {round.eliminated !== null && <span className="field__hint">{options[round.eliminated]} eliminated</span>}
+        </div>
+      ))}
+      <p className="meta__value">
+        Winner: <strong>{options[result.winner]}</strong>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useAccount, useReadContract } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { describeBallot } from '@shared/ballot';
+import { toBigInt, userDecryptHandles } from '../utils/userDecrypt';
+
+type MyBallotProps = {
+  pollId: bigint;
+  ballotType: number;
+  options: readonly string[];
+  instance: FhevmInstance | null;
+};
+
+// Decrypts the connected voter's stored ballot; the contract grants nobody else access to it.
+export function MyBallot({ pollId, ballotType, options, instance }: MyBallotProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+
+  const [description, setDescription] = useState<string | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  const { data: ballot, refetch: refetchBallot } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getBallot',
+    args: address ? [pollId, address] : undefined,
+    query: { enabled: Boolean(address) },
+  });
+
+  const reveal = async () => {
+    setAlert('');
+    if (!instance) return;
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsRevealing(true);
+    try {
+      // Refetch so a replaced ballot is never described from stale handles.
+      const { data: handles } = await refetchBallot();
+      const list = (handles ?? ballot ?? []) as `0x${string}`[];
+      const clearValues = list.length > 0 ? await userDecryptHandles(instance, signer, list) : {};
+      const increments = list.map((handle) => toBigInt(clearValues[handle]));
+      setDescription(describeBallot(ballotType, options, increments));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Could not decrypt your ballot';
+      setAlert(message);
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  return (
+    <div className="my-ballot">
+      {description !== null && (
+        <p className="meta__value">
+          Your vote: <strong>{description}</strong>
+        </p>
+      )}
+      {alert && <div className="alert alert--error">{alert}</div>}
+      <button type="button" className="ghost-btn" onClick={reveal} disabled={!instance || isRevealing}>
+        {isRevealing ? 'Decrypting...' : 'Reveal my vote'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import { Contract } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useAccount } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { summarizeNumeric } from '@shared/numeric';
+
+type NumericBallotProps = {
+  pollId: bigint;
+  /** Bucket labels, in bucket order. */
+  options: readonly string[];
+  minValue: number;
+  maxValue: number;
+  /** Decrypted bucket counts followed by the sum of the values, once the results are known. */
+  counts: readonly bigint[] | null;
+  instance: FhevmInstance | null;
+  /** Whether the poll is open and the connected address may answer it. */
+  isOpen: boolean;
+  canVote: boolean;
+  eligibilityProof: readonly string[];
+  /** The voter already answered a re-votable poll, so submitting replaces their value. */
+  isChange: boolean;
+  onVoted: () => void;
+};
+
+// Values outside the range are clamped by the contract, so the input only nudges voters towards valid answers.
+export function NumericBallot({
+  pollId,
+  options,
+  minValue,
+  maxValue,
+  counts,
+  instance,
+  isOpen,
+  canVote,
+  eligibilityProof,
+  isChange,
+  onVoted,
+}: NumericBallotProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+
+  const [value, setValue] = useState('');
+  const [isVoting, setIsVoting] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  const summary = useMemo(() => (counts ? summarizeNumeric(counts) : null), [counts]);
+  const largest = summary ? summary.histogram.reduce((best, count) => (count > best ? count : best), 0n) : 0n;
+  const isValid = /^\d+$/.test(value) && Number(value) >= minValue && Number(value) <= maxValue;
+
+  const submit = async () => {
+    setAlert('');
+    if (!instance || !address) return;
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsVoting(true);
+    try {
+      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      input.add32(Number(value));
+      const encrypted = await input.encrypt();
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.castNumericVote(pollId, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+      await tx.wait();
+      setValue('');
+      onVoted();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Vote failed';
+      setAlert(message);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  return (
+    <div className="numeric">
+      {isOpen && (
+        <div className="option-row">
+          <input
+            className="field__input"
+            value={value}
+            onChange={(e) => setValue(e.target.value.trim())}
+            placeholder={`A whole number from ${minValue} to ${maxValue}`}
+            inputMode="numeric"
+            disabled={!canVote}
+          />
+          <button className="primary-btn" onClick={submit} disabled={!canVote || !isValid || isVoting}>
+            {isVoting ? 'Submitting...' : isChange ? 'Change value' : 'Cast encrypted value'}
+          </button>
+        </div>
+      )}
+      {summary && (
+        <>
+          <p className="meta__value">
+            Mean: <strong>{summary.mean === null ? '-' : summary.mean.toFixed(2)}</strong> from{' '}
+            {summary.responses.toString()} response{summary.responses === 1n ? '' : 's'}
+          </p>
+          {summary.histogram.map((count, idx) => (
+            <div key={idx} className="histogram__row">
+              <span className="histogram__label">{options[idx]}</span>
+              <span className="histogram__track">
+                <span
+                  className="histogram__bar"
+                  style={{ width: largest > 0n ? `${Number((count * 100n) / largest)}%` : '0%' }}
+                />
+              </span>
+              <span className="option__count">{count.toString()}</span>
+            </div>
+          ))}
+        </>
+      )}
+      {alert && <div className="alert alert--error">{alert}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Contract, ZeroAddress } from 'ethers';
+import { useReadContract } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { EXECUTOR_ABI, EXECUTOR_ADDRESS } from '../config/contracts';
+
+type PollActionsProps = {
+  pollId: bigint;
+  options: readonly string[];
+  /** Tallies recorded on-chain by `publishResults`; the winning action can only run once they exist. */
+  published: boolean;
+};
+
+const shortHex = (value: string) => (value.length > 14 ? `${value.slice(0, 10)}…${value.slice(-4)}` : value);
+
+// Lists the contract call each option triggers and lets anyone run the winning one.
+export function PollActions({ pollId, options, published }: PollActionsProps) {
+  const signerPromise = useEthersSigner();
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  const { data, refetch } = useReadContract({
+    address: EXECUTOR_ADDRESS,
+    abi: EXECUTOR_ABI,
+    functionName: 'getActions',
+    args: [pollId],
+    query: { enabled: EXECUTOR_ADDRESS !== ZeroAddress },
+  });
+
+  if (!data || data[0].length === 0) return null;
+  const [targets, calldatas, executed] = data;
+
+  const execute = async () => {
+    setAlert('');
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsExecuting(true);
+    try {
+      const executor = new Contract(EXECUTOR_ADDRESS, EXECUTOR_ABI, signer);
+      const tx = await executor.execute(pollId);
+      await tx.wait();
+      refetch();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Execution failed';
+      setAlert(message);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  return (
+    <div className="my-ballot">
+      <p className="meta__label">On-chain actions{executed && ' · executed'}</p>
+      {targets.map((target, idx) => (
+        <p key={idx} className="meta__value">
+          {options[idx]}:{' '}
+          {target === ZeroAddress ? (
+            'no action'
+          ) : (
+            <span className="meta__value--mono">
+              {shortHex(target)} · {shortHex(calldatas[idx])}
+            </span>
+          )}
+        </p>
+      ))}
+      {alert && <div className="alert alert--error">{alert}</div>}
+      {published && !executed && (
+        <button type="button" className="ghost-btn" onClick={execute} disabled={isExecuting}>
+          {isExecuting ? 'Executing...' : "Run the winning option's action"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Contract } from 'ethers';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+
+type PollAdminMenuProps = {
+  pollId: bigint;
+  name: string;
+  options: readonly string[];
+  end: number;
+  /** Only 'Scheduled' polls can be edited; 'Scheduled' and 'Active' polls can be extended or cancelled. */
+  status: string;
+  onUpdated: () => void;
+};
+
+// Same UTC "YYYY-MM-DDTHH:mm" format the poll creator uses for its time inputs.
+const utcLocalDateTime = (timestampSeconds: number) => new Date(timestampSeconds * 1000).toISOString().slice(0, 16);
+
+export function PollAdminMenu({ pollId, name, options, end, status, onUpdated }: PollAdminMenuProps) {
+  const signerPromise = useEthersSigner();
+
+  const [newName, setNewName] = useState(name);
+  const [labels, setLabels] = useState<string[]>(() => [...options]);
+  const [endAt, setEndAt] = useState(() => utcLocalDateTime(end));
+  const [pending, setPending] = useState<string | null>(null);
+  const [alert, setAlert] = useState('');
+
+  const canEdit = status === 'Scheduled';
+
+  const send = async (action: string, call: (contract: Contract) => Promise<{ wait: () => Promise<unknown> }>) => {
+    setAlert('');
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setPending(action);
+    try {
+      const tx = await call(new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer));
+      await tx.wait();
+      onUpdated();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : `${action} failed`;
+      setAlert(message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const extend = () => {
+    const endSeconds = Math.floor(Date.parse(`${endAt}Z`) / 1000);
+    if (!Number.isFinite(endSeconds) || endSeconds <= end) {
+      setAlert('Pick an end time after the current one.');
+      return;
+    }
+    send('Extend', (contract) => contract.extendEndTime(pollId, endSeconds));
+  };
+
+  const edit = () => {
+    if (!newName.trim() || labels.some((label) => !label.trim())) {
+      setAlert('Name and option labels cannot be empty.');
+      return;
+    }
+    const trimmed = labels.map((label) => label.trim());
+    send('Edit', (contract) => contract.editMetadata(pollId, newName.trim(), trimmed));
+  };
+
+  const cancel = () => {
+    const warning = 'Cancel this poll? Ballots already cast will never be counted, and any creation deposit is slashed.';
+    if (!window.confirm(warning)) return;
+    send('Cancel', (contract) => contract.cancelPoll(pollId));
+  };
+
+  return (
+    <details className="admin-menu">
+      <summary className="meta__label">Manage poll (creator only)</summary>
+
+      {canEdit && (
+        <div className="admin-menu__section">
+          <label className="field">
+            <span className="field__label">Poll name</span>
+            <input className="field__input" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          </label>
+          {labels.map((label, idx) => (
+            <input
+              key={idx}
+              className="field__input"
+              value={label}
+              onChange={(e) => setLabels((prev) => prev.map((current, i) => (i === idx ? e.target.value : current)))}
+            />
+          ))}
+          <button type="button" className="ghost-btn" onClick={edit} disabled={pending !== null}>
+            {pending === 'Edit' ? 'Saving...' : 'Save name and options'}
+          </button>
+        </div>
+      )}
+
+      <div className="admin-menu__section">
+        <label className="field">
+          <span className="field__label">End time (UTC)</span>
+          <input
+            className="field__input"
+            type="datetime-local"
+            value={endAt}
+            onChange={(e) => setEndAt(e.target.value)}
+          />
+        </label>
+        <button type="button" className="ghost-btn" onClick={extend} disabled={pending !== null}>
+          {pending === 'Extend' ? 'Extending...' : 'Extend voting'}
+        </button>
+      </div>
+
+      {alert && <div className="alert alert--error">{alert}</div>}
+
+      <button type="button" className="ghost-btn ghost-btn--danger" onClick={cancel} disabled={pending !== null}>
+        {pending === 'Cancel' ? 'Cancelling...' : 'Cancel poll'}
+      </button>
+    </details>
+  );
+}
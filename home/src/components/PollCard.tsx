@@ -1,13 +1,58 @@
 import { useEffect, useMemo, useState } from 'react';
-import { Contract } from 'ethers';
+import { Contract, formatEther, getAddress, hexlify, ZeroAddress } from 'ethers';
 import { useAccount, useReadContract } from 'wagmi';
 import { useZamaInstance } from '../hooks/useZamaInstance';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { INDEXER_URL, RELAYER_URL } from '../config/services';
+import { buildMerkleAllowlist, parseAddressList } from '@shared/allowlist';
+import { AllocationBallot } from './AllocationBallot';
+import { AllowanceEditor } from './AllowanceEditor';
+import { IrvRounds } from './IrvRounds';
+import { MyBallot } from './MyBallot';
+import { NumericBallot } from './NumericBallot';
+import { PollActions } from './PollActions';
+import { PollAdminMenu } from './PollAdminMenu';
+import { RankedBallot } from './RankedBallot';
+import { SurveyBallot } from './SurveyBallot';
+import { ResultsDownload } from './ResultsDownload';
+import { TurnoutChart } from './TurnoutChart';
+import { MAX_QUEUED_VOTES, type QueuedVote } from './VoteQueue';
+import { instantRunoff } from '@shared/irv';
+import { ballotDomain, signBallot, type SignedBallot } from '@shared/relayer';
+
+// Polls with more options than this get a search box and a scrolling option grid.
+const OPTION_SEARCH_THRESHOLD = 6;
+
+/** What the poll list already read about a poll from `VoteGridLens` or the indexer, enough for a collapsed card. */
+export type PollListSummary = {
+  name: string;
+  startTime: number;
+  endTime: number;
+  /** One of the labels the expanded card shows, e.g. `Active` or `Finalized`. */
+  status: string;
+  participantCount: number;
+  /** Whether the connected account voted; `undefined` when not connected. */
+  hasVoted?: boolean;
+  category: string;
+  tags: readonly string[];
+};
 
 type PollCardProps = {
   pollId: bigint;
+  /** Shows the card collapsed until it is opened, so only opened cards read the poll themselves. */
+  summary?: PollListSummary;
   onActionComplete: () => void;
+  /** This poll's entry in the batch vote queue, if any. */
+  queuedVote?: QueuedVote;
+  onQueueVote: (pollId: bigint, vote: QueuedVote | null) => void;
+  /** The queue holds `MAX_QUEUED_VOTES`, so only polls already in it can change their entry. */
+  queueFull: boolean;
+};
+
+type ExpandedPollCardProps = Omit<PollCardProps, 'summary'> & {
+  /** Folds the card back into its summary; omitted when there is no summary to show. */
+  onCollapse?: () => void;
 };
 
 type Metadata = {
@@ -17,19 +62,88 @@ type Metadata = {
   finalized: boolean;
   creator: string;
   optionCount: number;
+  cancelled: boolean;
 };
 
-export function PollCard({ pollId, onActionComplete }: PollCardProps) {
+export function PollCard({ summary, ...props }: PollCardProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (!summary || expanded) {
+    return <ExpandedPollCard {...props} onCollapse={summary ? () => setExpanded(false) : undefined} />;
+  }
+  return (
+    <article className="poll-card">
+      <div className="poll-card__header">
+        <div>
+          <p className="eyebrow">Poll #{props.pollId.toString()}</p>
+          <h4 className="poll-card__title">{summary.name}</h4>
+        </div>
+        <div className="poll-card__actions">
+          <span className={`status status--${summary.status.toLowerCase().replace(' ', '-')}`}>{summary.status}</span>
+          <button type="button" className="ghost-btn" onClick={() => setExpanded(true)}>
+            Open
+          </button>
+        </div>
+      </div>
+
+      {(summary.category || summary.tags.length > 0) && (
+        <div className="poll-card__labels">
+          {summary.category && <span className="label label--category">{summary.category}</span>}
+          {summary.tags.map((tag) => (
+            <span key={tag} className="label">
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="poll-card__meta">
+        <div>
+          <p className="meta__label">Opens</p>
+          <p className="meta__value">{new Date(summary.startTime * 1000).toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="meta__label">Closes</p>
+          <p className="meta__value">{new Date(summary.endTime * 1000).toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="meta__label">Turnout</p>
+          <p className="meta__value">
+            {summary.participantCount} voter{summary.participantCount === 1 ? '' : 's'}
+            {summary.hasVoted && <> · you voted</>}
+            {props.queuedVote && <> · queued</>}
+          </p>
+        </div>
+      </div>
+    </article>
+  );
+}
+
+function ExpandedPollCard({
+  pollId,
+  onActionComplete,
+  queuedVote,
+  onQueueVote,
+  queueFull,
+  onCollapse,
+}: ExpandedPollCardProps) {
   const { address, isConnected } = useAccount();
   const signerPromise = useEthersSigner();
   const { instance, isLoading: zamaLoading } = useZamaInstance();
 
   const [choice, setChoice] = useState<number | null>(null);
+  const [approved, setApproved] = useState<boolean[]>([]);
   const [isVoting, setIsVoting] = useState(false);
   const [isFinalizing, setIsFinalizing] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [clearResults, setClearResults] = useState<number[] | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [decryptionProof, setDecryptionProof] = useState<string | null>(null);
+  const [clearResults, setClearResults] = useState<bigint[] | null>(null);
+  const [clearWinner, setClearWinner] = useState<{ winner: number; tie: boolean | null } | null>(null);
   const [alert, setAlert] = useState('');
+  const [allowlistText, setAllowlistText] = useState('');
+  const [optionSearch, setOptionSearch] = useState('');
+  const [useRelayer, setUseRelayer] = useState(Boolean(RELAYER_URL));
 
   const { data: rawMetadata, refetch: refetchMetadata } = useReadContract({
     address: CONTRACT_ADDRESS,
@@ -50,10 +164,11 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
       finalized: rawMetadata[3] as boolean,
       creator: rawMetadata[4] as string,
       optionCount: Number(rawMetadata[5]),
+      cancelled: rawMetadata[6] as boolean,
     };
   }, [rawMetadata]);
 
-  const { data: options } = useReadContract({
+  const { data: options, refetch: refetchOptions } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'getOptions',
@@ -61,6 +176,104 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
     query: { enabled: !!metadata },
   });
 
+  const { data: settings } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getPollSettings',
+    args: [pollId],
+    query: { enabled: !!metadata },
+  });
+
+  const { data: details } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getPollDetails',
+    args: [pollId],
+    query: { enabled: !!metadata },
+  });
+
+  const eligibility = settings ? Number(settings.eligibility) : 0;
+  const isAllocation = settings ? Number(settings.ballotType) === 1 : false;
+  const isApproval = settings ? Number(settings.ballotType) === 2 : false;
+  const isRanked = settings ? Number(settings.ballotType) === 3 : false;
+  const isSurvey = settings ? Number(settings.ballotType) === 4 : false;
+  const isNumeric = settings ? Number(settings.ballotType) === 5 : false;
+  // Surveys and numeric polls render their own ballot and results instead of the option grid.
+  const hasOptionGrid = !isSurvey && !isNumeric;
+  // Winner-only polls reveal the winning index (and, in mode 2, a tie flag) instead of the counts.
+  const reveal = settings ? Number(settings.reveal) : 0;
+  const winnerOnly = reveal !== 0;
+  const ballotLabel = isAllocation
+    ? 'Point allocation'
+    : isApproval
+      ? 'Approval (pick any number)'
+      : isRanked
+        ? 'Ranked (instant runoff)'
+        : isSurvey
+          ? 'Survey (one answer per question)'
+          : isNumeric && settings
+            ? `Numeric (${settings.minValue} to ${settings.maxValue})`
+            : null;
+
+  const { data: surveyQuestions } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getSurveyQuestions',
+    args: [pollId],
+    query: { enabled: isSurvey },
+  });
+
+  // Merkle polls only store the root, so voters rebuild their proof from the CSV the creator shared.
+  const merkleProof = useMemo(() => {
+    if (eligibility !== 2 || !address || !settings || !allowlistText.trim()) return null;
+    try {
+      const { root, proofs } = buildMerkleAllowlist(parseAddressList(allowlistText));
+      if (root !== settings.merkleRoot) return null;
+      return proofs[getAddress(address)] ?? null;
+    } catch {
+      return null;
+    }
+  }, [eligibility, address, settings, allowlistText]);
+
+  const eligibilityProof = useMemo(() => merkleProof ?? [], [merkleProof]);
+
+  const { data: isEligible } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'isEligible',
+    args: address ? [pollId, address, eligibilityProof as `0x${string}`[]] : undefined,
+    query: {
+      enabled: Boolean(address) && eligibility !== 0,
+    },
+  });
+
+  const isWeighted = Boolean(settings && settings.weightToken !== ZeroAddress);
+
+  const { data: voteWeight } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getVoteWeight',
+    args: address ? [pollId, address] : undefined,
+    query: {
+      enabled: Boolean(address) && isWeighted,
+    },
+  });
+
+  // Own weight plus that of every delegator who has not voted directly.
+  const { data: ballotWeight } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getBallotWeight',
+    args: address ? [pollId, address] : undefined,
+    query: {
+      enabled: Boolean(address),
+      refetchInterval: 12000,
+    },
+  });
+
+  const ownWeight = isWeighted ? voteWeight : 1n;
+  const delegatedWeight = ballotWeight !== undefined && ownWeight !== undefined ? ballotWeight - ownWeight : 0n;
+
   const { data: hasVoted, refetch: refetchHasVoted } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
@@ -72,36 +285,108 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
     },
   });
 
+  const { data: turnout, refetch: refetchTurnout } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getTurnout',
+    args: [pollId],
+    query: {
+      enabled: !!metadata,
+      refetchInterval: 12000,
+    },
+  });
+  const { data: bounty, refetch: refetchBounty } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getBounty',
+    args: [pollId],
+  });
+
+  const participants = turnout ? Number(turnout[0]) : null;
+  const quorum = turnout ? Number(turnout[1]) : 0;
+  const quorumFailed = Boolean(turnout?.[2]);
+
   const { data: encryptedResults, refetch: refetchEncryptedResults } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'getEncryptedResults',
     args: [pollId],
     query: {
-      enabled: Boolean(metadata?.finalized),
+      enabled: Boolean(metadata?.finalized) && turnout !== undefined && !quorumFailed && !!settings && !winnerOnly,
     },
   });
 
+  // Reverts (and stays undefined) until someone publishes the verified tallies with `publishResults`.
+  const { data: publishedResults, refetch: refetchPublishedResults } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getClearResults',
+    args: [pollId],
+    query: {
+      enabled: Boolean(metadata?.finalized) && turnout !== undefined && !quorumFailed && !!settings && !winnerOnly,
+      retry: false,
+    },
+  });
+
+  const { data: encryptedWinner, refetch: refetchEncryptedWinner } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getEncryptedWinner',
+    args: [pollId],
+    query: {
+      enabled: Boolean(metadata?.finalized) && turnout !== undefined && !quorumFailed && winnerOnly,
+    },
+  });
+
+  const allowRevote = Boolean(settings?.allowRevote);
+  // Re-votable polls keep every ballot control available after the first vote.
+  const mayVote = hasVoted !== true || allowRevote;
+  // Relayed ballots go through `castVoteBySig`, which only takes single-choice ballots.
+  const canRelay = Boolean(RELAYER_URL) && settings !== undefined && Number(settings.ballotType) === 0;
+  const relayed = canRelay && useRelayer;
+  // `castVotes` batches single-choice ballots without eligibility proofs, so Merkle polls are voted on one by one.
+  const canQueue = settings !== undefined && Number(settings.ballotType) === 0 && eligibility !== 2;
+
   const status = useMemo(() => {
     if (!metadata) return 'Loading';
     const now = Math.floor(Date.now() / 1000);
-    if (metadata.finalized) return 'Finalized';
+    if (metadata.finalized) return quorumFailed ? 'Failed quorum' : 'Finalized';
+    if (metadata.cancelled) return 'Cancelled';
     if (now < metadata.start) return 'Scheduled';
     if (now >= metadata.start && now < metadata.end) return 'Active';
     return 'Ended';
-  }, [metadata]);
+  }, [metadata, quorumFailed]);
+
+  // Counters stay bigints so they publish exactly; they only become numbers to be displayed.
+  const displayResults = useMemo(() => clearResults?.map((value) => Number(value)) ?? null, [clearResults]);
+
+  // Ranked polls decrypt one counter per ranking; the option cards show first preferences.
+  const optionTotals = useMemo(() => {
+    if (!clearResults || !isRanked || !options) return displayResults;
+    try {
+      return instantRunoff(options.length, clearResults).rounds[0].tallies.map((votes) => Number(votes ?? 0n));
+    } catch {
+      return null;
+    }
+  }, [clearResults, displayResults, isRanked, options]);
 
   useEffect(() => {
     setClearResults(null);
+    setClearWinner(null);
+    setDecryptionProof(null);
   }, [pollId, metadata?.finalized]);
 
+  useEffect(() => {
+    if (publishedResults) setClearResults([...publishedResults]);
+  }, [publishedResults]);
+
   const vote = async () => {
     setAlert('');
     if (!metadata || !options) {
       setAlert('Poll not ready.');
       return;
     }
-    if (choice === null) {
+    if (!isApproval && choice === null) {
       setAlert('Select an option before voting.');
       return;
     }
@@ -113,6 +398,18 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
       setAlert('Zama encryption is still loading.');
       return;
     }
+    if (eligibility !== 0 && isEligible !== true) {
+      setAlert(
+        eligibility === 2
+          ? 'Paste the voter list shared by the poll creator to prove you are on it.'
+          : 'Your address is not on this poll\'s allowlist.',
+      );
+      return;
+    }
+    if (isWeighted && ballotWeight === 0n) {
+      setAlert('You held no tokens at the snapshot block and nobody delegated their vote to you.');
+      return;
+    }
 
     const now = Math.floor(Date.now() / 1000);
     if (now < metadata.start) {
@@ -133,12 +430,54 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
     setIsVoting(true);
     try {
       const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
-      input.add32(choice);
-      const encrypted = await input.encrypt();
       const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.castVote(pollId, encrypted.handles[0], encrypted.inputProof);
-      await tx.wait();
+      if (isApproval) {
+        // One encrypted flag per option, so the ballot does not reveal how many options were approved.
+        options.forEach((_, idx) => input.addBool(approved[idx] ?? false));
+        const encrypted = await input.encrypt();
+        const tx = await contract.castApprovalVote(pollId, encrypted.handles, encrypted.inputProof, eligibilityProof);
+        await tx.wait();
+      } else if (relayed) {
+        // The relayer sends the transaction, so the choice is encrypted for its address and the voter only signs.
+        const { address: relayerAddress } = (await (await fetch(`${RELAYER_URL}/address`)).json()) as {
+          address: string;
+        };
+        const encrypted = await instance
+          .createEncryptedInput(CONTRACT_ADDRESS, relayerAddress)
+          .add32(choice as number)
+          .encrypt();
+        const handle = hexlify(encrypted.handles[0]);
+        const inputProof = hexlify(encrypted.inputProof);
+        const deadline = Math.floor(Date.now() / 1000) + 600;
+        const domain = ballotDomain((await signer.provider.getNetwork()).chainId, CONTRACT_ADDRESS);
+        const nonce = (await contract.nonces(address)) as bigint;
+        const ballot: SignedBallot = {
+          pollId: pollId.toString(),
+          voter: address as string,
+          handle,
+          inputProof,
+          eligibilityProof,
+          deadline: deadline.toString(),
+          signature: await signBallot(signer, domain, { pollId, handle, inputProof, nonce, deadline }),
+        };
+        const response = await fetch(`${RELAYER_URL}/ballots`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(ballot),
+        });
+        const result = (await response.json()) as { txHash?: string; error?: string };
+        if (!response.ok || !result.txHash) {
+          throw new Error(result.error ?? `Relayer responded with ${response.status}`);
+        }
+        await signer.provider.waitForTransaction(result.txHash);
+      } else {
+        input.add32(choice as number);
+        const encrypted = await input.encrypt();
+        const tx = await contract.castVote(pollId, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+        await tx.wait();
+      }
       setChoice(null);
+      setApproved([]);
       refetchHasVoted();
       refetchMetadata();
       onActionComplete();
@@ -163,7 +502,10 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
       const tx = await contract.finalizePoll(pollId);
       await tx.wait();
       refetchMetadata();
+      refetchTurnout();
+      refetchBounty();
       refetchEncryptedResults();
+      refetchEncryptedWinner();
       onActionComplete();
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Finalize failed';
@@ -179,6 +521,10 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
       setAlert('Zama instance still loading.');
       return;
     }
+    if (winnerOnly) {
+      await decryptWinner();
+      return;
+    }
     if (!encryptedResults || encryptedResults.length === 0) {
       setAlert('No encrypted results available.');
       return;
@@ -187,12 +533,12 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
     setIsDecrypting(true);
     try {
       const handles = encryptedResults.map((h) => h as string);
-      const { clearValues } = await instance.publicDecrypt(handles);
+      const { clearValues, decryptionProof: proof } = await instance.publicDecrypt(handles);
+      setDecryptionProof(proof);
       const totals = handles.map((handle) => {
         const value = clearValues[handle];
-        if (typeof value === 'bigint') return Number(value);
-        if (typeof value === 'number') return value;
-        return parseInt(value as string, 10);
+        if (typeof value === 'bigint') return value;
+        return BigInt(value as number | string);
       });
       setClearResults(totals);
     } catch (err) {
@@ -203,6 +549,53 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
     }
   };
 
+  // Anyone can record the decrypted tallies on-chain; the contract checks them against the KMS decryption proof.
+  const publish = async () => {
+    setAlert('');
+    if (!clearResults || !decryptionProof) return;
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.publishResults(pollId, clearResults, decryptionProof);
+      await tx.wait();
+      refetchPublishedResults();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Publishing failed';
+      setAlert(message);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const decryptWinner = async () => {
+    if (!instance || !encryptedWinner) {
+      setAlert('No encrypted winner available.');
+      return;
+    }
+
+    setIsDecrypting(true);
+    try {
+      const [winnerHandle, tieHandle] = encryptedWinner;
+      const handles = reveal === 2 ? [winnerHandle, tieHandle] : [winnerHandle];
+      const { clearValues } = await instance.publicDecrypt(handles);
+      setClearWinner({
+        winner: Number(clearValues[winnerHandle]),
+        tie: reveal === 2 ? Boolean(clearValues[tieHandle]) : null,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Decryption failed';
+      setAlert(message);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
   if (!metadata) {
     return <div className="poll-card poll-card--loading">Loading poll...</div>;
   }
@@ -210,6 +603,28 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
   const startDate = new Date(metadata.start * 1000).toLocaleString();
   const endDate = new Date(metadata.end * 1000).toLocaleString();
 
+  const toggleApproved = (idx: number) => {
+    setApproved((prev) => {
+      const next = [...prev];
+      next[idx] = !next[idx];
+      return next;
+    });
+  };
+
+  const isLongList = Boolean(options && options.length > OPTION_SEARCH_THRESHOLD);
+  const matchesSearch = (option: string) =>
+    !optionSearch.trim() || option.toLowerCase().includes(optionSearch.trim().toLowerCase());
+
+  const isCreator = Boolean(address && address.toLowerCase() === metadata.creator.toLowerCase());
+  // With the queued option still selected (or none), the queue button takes the poll back out of the queue.
+  const unqueues = Boolean(queuedVote && (choice === null || queuedVote.choice === choice));
+  // Handles archived by a results download: the counters, or the winner (and tie flag) of winner-only polls.
+  const exportHandles = quorumFailed
+    ? []
+    : winnerOnly
+      ? encryptedWinner && (reveal === 2 ? [...encryptedWinner] : [encryptedWinner[0]])
+      : encryptedResults;
+
   return (
     <article className="poll-card">
       <div className="poll-card__header">
@@ -217,9 +632,28 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
           <p className="eyebrow">Poll #{pollId.toString()}</p>
           <h4 className="poll-card__title">{metadata.name}</h4>
         </div>
-        <span className={`status status--${status.toLowerCase()}`}>{status}</span>
+        <div className="poll-card__actions">
+          <span className={`status status--${status.toLowerCase().replace(' ', '-')}`}>{status}</span>
+          {onCollapse && (
+            <button type="button" className="ghost-btn" onClick={onCollapse}>
+              Collapse
+            </button>
+          )}
+        </div>
       </div>
 
+      {details?.description && <p className="poll-card__description">{details.description}</p>}
+      {details && (details.category || details.tags.length > 0) && (
+        <div className="poll-card__labels">
+          {details.category && <span className="label label--category">{details.category}</span>}
+          {details.tags.map((tag) => (
+            <span key={tag} className="label">
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="poll-card__meta">
         <div>
           <p className="meta__label">Opens</p>
@@ -233,42 +667,306 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
           <p className="meta__label">Creator</p>
           <p className="meta__value meta__value--mono">{metadata.creator}</p>
         </div>
-      </div>
-
-      <div className="options-grid">
-        {options?.map((opt, idx) => (
-          <button
-            key={idx}
-            type="button"
-            className={`option ${choice === idx ? 'option--active' : ''}`}
-            onClick={() => setChoice(idx)}
-            disabled={!isConnected || hasVoted === true || status !== 'Active'}
-          >
-            <div className="option__name">{opt as string}</div>
-            {clearResults && clearResults[idx] !== undefined && (
-              <div className="option__count">{clearResults[idx]}</div>
+        {details?.contentHash && (
+          <div>
+            <p className="meta__label">Proposal document</p>
+            <p className="meta__value meta__value--mono">{details.contentHash}</p>
+          </div>
+        )}
+        <div>
+          <p className="meta__label">Voters</p>
+          <p className="meta__value">
+            {eligibility === 0 ? 'Anyone' : eligibility === 1 ? 'Allowlist' : 'Merkle allowlist'}
+            {eligibility !== 0 && isConnected && isEligible !== undefined && (
+              <> · {isEligible ? 'you are eligible' : 'you are not eligible'}</>
             )}
-          </button>
-        ))}
+          </p>
+        </div>
+        {isConnected && ballotWeight !== undefined && (status === 'Scheduled' || status === 'Active') && (
+          <div>
+            <p className="meta__label">Votes you're casting</p>
+            <p className="meta__value">
+              {ballotWeight.toString()}
+              {delegatedWeight > 0n && <> · {delegatedWeight.toString()} delegated to you</>}
+            </p>
+          </div>
+        )}
+        {participants !== null && (
+          <div>
+            <p className="meta__label">Turnout</p>
+            <p className="meta__value">
+              {participants} voter{participants === 1 ? '' : 's'}
+              {quorum > 0 && <> · quorum {quorum}</>}
+            </p>
+          </div>
+        )}
+        {bounty !== undefined && bounty > 0n && (
+          <div>
+            <p className="meta__label">Finalization bounty</p>
+            <p className="meta__value">{formatEther(bounty)} ETH</p>
+          </div>
+        )}
+        {ballotLabel && (
+          <div>
+            <p className="meta__label">Ballot</p>
+            <p className="meta__value">{ballotLabel}</p>
+          </div>
+        )}
       </div>
 
+      {INDEXER_URL && metadata && status !== 'Scheduled' && (
+        <TurnoutChart pollId={pollId} start={metadata.start} end={metadata.end} />
+      )}
+
+      {isWeighted && settings && (
+        <div className="poll-card__meta">
+          <div>
+            <p className="meta__label">Weighted by</p>
+            <p className="meta__value meta__value--mono">
+              {settings.weightToken} @ block {settings.snapshotBlock.toString()}
+            </p>
+          </div>
+          {isConnected && voteWeight !== undefined && (
+            <div>
+              <p className="meta__label">Your weight</p>
+              <p className="meta__value">
+                {voteWeight.toString()} vote{voteWeight === 1n ? '' : 's'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {eligibility === 2 && status === 'Active' && mayVote && (
+        <label className="field">
+          <span className="field__label">Voter list (CSV from the poll creator)</span>
+          <textarea
+            className="field__input field__input--textarea"
+            value={allowlistText}
+            onChange={(e) => setAllowlistText(e.target.value)}
+            placeholder="Paste the addresses the Merkle root was built from"
+            rows={3}
+          />
+        </label>
+      )}
+
+      {isCreator && (status === 'Scheduled' || status === 'Active') && options && (
+        <PollAdminMenu
+          key={`${metadata.name}:${metadata.end}`}
+          pollId={pollId}
+          name={metadata.name}
+          options={options as readonly string[]}
+          end={metadata.end}
+          status={status}
+          onUpdated={() => {
+            refetchMetadata();
+            refetchOptions();
+            refetchBounty();
+            onActionComplete();
+          }}
+        />
+      )}
+
+      {isAllocation && isCreator && status === 'Scheduled' && (
+        <AllowanceEditor pollId={pollId} instance={instance} onAssigned={onActionComplete} />
+      )}
+
+      {isAllocation && isConnected && status === 'Active' && mayVote && options && (
+        <AllocationBallot
+          pollId={pollId}
+          options={options as readonly string[]}
+          instance={instance}
+          canVote={eligibility === 0 || isEligible === true}
+          eligibilityProof={eligibilityProof}
+          isChange={hasVoted === true}
+          onVoted={() => {
+            refetchHasVoted();
+            refetchMetadata();
+            onActionComplete();
+          }}
+        />
+      )}
+
+      {isRanked && isConnected && status === 'Active' && mayVote && options && (
+        <RankedBallot
+          pollId={pollId}
+          options={options as readonly string[]}
+          instance={instance}
+          canVote={eligibility === 0 || isEligible === true}
+          eligibilityProof={eligibilityProof}
+          isChange={hasVoted === true}
+          onVoted={() => {
+            refetchHasVoted();
+            refetchMetadata();
+            onActionComplete();
+          }}
+        />
+      )}
+
+      {isSurvey && options && surveyQuestions && (
+        <SurveyBallot
+          pollId={pollId}
+          options={options as readonly string[]}
+          prompts={surveyQuestions[0] as readonly string[]}
+          optionCounts={surveyQuestions[1] as readonly bigint[]}
+          counts={optionTotals}
+          instance={instance}
+          isOpen={isConnected && status === 'Active' && mayVote}
+          canVote={eligibility === 0 || isEligible === true}
+          eligibilityProof={eligibilityProof}
+          isChange={hasVoted === true}
+          onVoted={() => {
+            refetchHasVoted();
+            refetchMetadata();
+            onActionComplete();
+          }}
+        />
+      )}
+
+      {isNumeric && settings && options && (
+        <NumericBallot
+          pollId={pollId}
+          options={options as readonly string[]}
+          minValue={settings.minValue}
+          maxValue={settings.maxValue}
+          counts={clearResults}
+          instance={instance}
+          isOpen={isConnected && status === 'Active' && mayVote}
+          canVote={eligibility === 0 || isEligible === true}
+          eligibilityProof={eligibilityProof}
+          isChange={hasVoted === true}
+          onVoted={() => {
+            refetchHasVoted();
+            refetchMetadata();
+            onActionComplete();
+          }}
+        />
+      )}
+
+      {hasVoted === true && settings && options && (
+        <MyBallot
+          pollId={pollId}
+          ballotType={Number(settings.ballotType)}
+          options={options as readonly string[]}
+          instance={instance}
+        />
+      )}
+
+      {options && (
+        <PollActions pollId={pollId} options={options as readonly string[]} published={Boolean(publishedResults)} />
+      )}
+
+      {hasOptionGrid && options && options.length > OPTION_SEARCH_THRESHOLD && (
+        <input
+          className="field__input"
+          value={optionSearch}
+          onChange={(e) => setOptionSearch(e.target.value)}
+          placeholder={`Search ${options.length} options`}
+        />
+      )}
+
+      {hasOptionGrid && (
+        <div className={`options-grid ${isLongList ? 'options-grid--scroll' : ''}`}>
+          {options?.map((opt, idx) =>
+            !matchesSearch(opt as string) ? null : isApproval ? (
+              <label key={idx} className={`option option--check ${approved[idx] ? 'option--active' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={approved[idx] ?? false}
+                  onChange={() => toggleApproved(idx)}
+                  disabled={!isConnected || !mayVote || status !== 'Active'}
+                />
+                <div className="option__name">{opt as string}</div>
+                {optionTotals && optionTotals[idx] !== undefined && (
+                  <div className="option__count">{optionTotals[idx]}</div>
+                )}
+              </label>
+            ) : (
+              <button
+                key={idx}
+                type="button"
+                className={`option ${choice === idx ? 'option--active' : ''}`}
+                onClick={() => setChoice(idx)}
+                disabled={!isConnected || !mayVote || status !== 'Active' || isAllocation || isRanked}
+              >
+                <div className="option__name">{opt as string}</div>
+                {optionTotals && optionTotals[idx] !== undefined && (
+                  <div className="option__count">{optionTotals[idx]}</div>
+                )}
+              </button>
+            ),
+          )}
+        </div>
+      )}
+
+      {isRanked && clearResults && options && (
+        <IrvRounds options={options as readonly string[]} rankingCounts={clearResults} />
+      )}
+
+      {clearWinner && options && (
+        <p className="meta__value">
+          Winner: <strong>{options[clearWinner.winner] as string}</strong>
+          {clearWinner.tie === true && ' (tied for first place; ties go to the option listed first)'}
+          {clearWinner.tie === false && ' (no tie)'}
+        </p>
+      )}
+
       {alert && <div className="alert alert--error">{alert}</div>}
 
+      {canRelay && status === 'Active' && (
+        <label className="field field--toggle">
+          <input type="checkbox" checked={useRelayer} onChange={(e) => setUseRelayer(e.target.checked)} />
+          <span className="field__label">Sign the ballot and let the relayer pay the gas</span>
+        </label>
+      )}
+
       <div className="poll-card__actions">
-        <button
-          className="primary-btn"
-          onClick={vote}
-          disabled={
-            !isConnected ||
-            hasVoted === true ||
-            choice === null ||
-            isVoting ||
-            status !== 'Active' ||
-            zamaLoading
-          }
-        >
-          {hasVoted ? 'You already voted' : isVoting ? 'Submitting...' : 'Cast encrypted vote'}
-        </button>
+        {!isAllocation && !isRanked && hasOptionGrid && (
+          <button
+            className="primary-btn"
+            onClick={vote}
+            disabled={
+              !isConnected ||
+              !mayVote ||
+              (!isApproval && choice === null) ||
+              isVoting ||
+              status !== 'Active' ||
+              zamaLoading
+            }
+          >
+            {isVoting
+              ? 'Submitting...'
+              : hasVoted
+                ? allowRevote
+                  ? 'Change vote'
+                  : 'You already voted'
+                : 'Cast encrypted vote'}
+          </button>
+        )}
+        {canQueue && status === 'Active' && mayVote && (
+          <button
+            className="ghost-btn"
+            onClick={() =>
+              unqueues
+                ? onQueueVote(pollId, null)
+                : onQueueVote(pollId, {
+                    pollId,
+                    pollName: metadata.name,
+                    choice: choice as number,
+                    label: options?.[choice as number] as string,
+                  })
+            }
+            disabled={!isConnected || (choice === null && !queuedVote) || (queueFull && !queuedVote)}
+          >
+            {unqueues
+              ? 'Remove from queue'
+              : queuedVote
+                ? 'Update queued vote'
+                : queueFull
+                  ? `Vote queue full (${MAX_QUEUED_VOTES})`
+                  : 'Add to vote queue'}
+          </button>
+        )}
         <button
           className="ghost-btn"
           onClick={finalize}
@@ -279,10 +977,40 @@ export function PollCard({ pollId, onActionComplete }: PollCardProps) {
         <button
           className="ghost-btn"
           onClick={decrypt}
-          disabled={!metadata.finalized || isDecrypting || !encryptedResults}
+          disabled={!metadata.finalized || isDecrypting || !(winnerOnly ? encryptedWinner : encryptedResults)}
         >
-          {isDecrypting ? 'Decrypting...' : 'Decrypt results'}
+          {isDecrypting ? 'Decrypting...' : winnerOnly ? 'Reveal winner' : 'Decrypt results'}
         </button>
+        {publishedResults ? (
+          <span className="field__hint">Results verified on-chain</span>
+        ) : (
+          decryptionProof &&
+          clearResults && (
+            <button className="ghost-btn" onClick={publish} disabled={isPublishing}>
+              {isPublishing ? 'Publishing...' : 'Publish results on-chain'}
+            </button>
+          )
+        )}
+        {metadata.finalized && options && settings && exportHandles && (
+          <ResultsDownload
+            pollId={pollId}
+            metadata={metadata}
+            options={options as readonly string[]}
+            questions={surveyQuestions?.[0].map((prompt, q) => ({
+              prompt,
+              optionCount: Number(surveyQuestions[1][q]),
+            }))}
+            ballotType={Number(settings.ballotType)}
+            reveal={reveal}
+            participants={participants ?? 0}
+            quorum={quorum}
+            quorumFailed={quorumFailed}
+            handles={exportHandles}
+            counts={clearResults}
+            revealedWinner={clearWinner}
+            published={Boolean(publishedResults)}
+          />
+        )}
       </div>
     </article>
   );
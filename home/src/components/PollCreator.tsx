@@ -1,13 +1,53 @@
 import { useEffect, useMemo, useState } from 'react';
-import { useAccount } from 'wagmi';
-import { Contract } from 'ethers';
+import { useAccount, useBlockNumber, useReadContract } from 'wagmi';
+import { Contract, formatEther, isAddress, type Log, parseEther, ZeroAddress, ZeroHash } from 'ethers';
+import { useCreatorPolicy } from '../hooks/useCreatorPolicy';
 import { useEthersSigner } from '../hooks/useEthersSigner';
-import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import {
+  CONTRACT_ABI,
+  CONTRACT_ADDRESS,
+  CREATOR_POLICY_ABI,
+  EXECUTOR_ABI,
+  EXECUTOR_ADDRESS,
+} from '../config/contracts';
+import { type ActionSpec, encodeActions, splitArguments } from '@shared/actions';
+import { buildMerkleAllowlist, parseAddressList } from '@shared/allowlist';
+import { bucketLabel, numericBuckets } from '@shared/numeric';
 
 type PollCreatorProps = {
   onCreated: () => void;
 };
 
+type EligibilityMode = 'open' | 'allowlist' | 'merkle';
+type BallotMode = 'single' | 'allocation' | 'approval' | 'ranked' | 'survey' | 'numeric';
+type RevealMode = 'tallies' | 'winner' | 'winner-tie';
+type ActionDraft = { target: string; signature: string; args: string };
+type QuestionDraft = { prompt: string; options: string };
+
+// Long option lists get a search box and a scrolling container.
+const OPTION_SEARCH_THRESHOLD = 6;
+const MAX_RANKED_OPTIONS = 4;
+const MAX_TAGS = 8;
+const MAX_SURVEY_QUESTIONS = 16;
+const MAX_SURVEY_OPTIONS = 64;
+// `PollSettings.quorum`, `minValue` and `maxValue` are uint32s.
+const MAX_UINT32 = 2 ** 32 - 1;
+
+const ELIGIBILITY_MODES: EligibilityMode[] = ['open', 'allowlist', 'merkle'];
+const BALLOT_MODES: BallotMode[] = ['single', 'allocation', 'approval', 'ranked', 'survey', 'numeric'];
+const REVEAL_MODES: RevealMode[] = ['tallies', 'winner', 'winner-tie'];
+const EMPTY_ACTION: ActionDraft = { target: '', signature: '', args: '' };
+const DEFAULT_QUESTIONS: QuestionDraft[] = [
+  { prompt: 'Question 1', options: 'Yes, No' },
+  { prompt: 'Question 2', options: 'Yes, No' },
+];
+
+const splitList = (text: string) =>
+  text
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 const utcLocalDateTime = (timestampSeconds: number) => {
   const date = new Date(timestampSeconds * 1000);
   const iso = date.toISOString();
@@ -15,14 +55,38 @@ const utcLocalDateTime = (timestampSeconds: number) => {
 };
 
 export function PollCreator({ onCreated }: PollCreatorProps) {
-  const { isConnected } = useAccount();
+  const { isConnected, address } = useAccount();
   const signerPromise = useEthersSigner();
+  const policy = useCreatorPolicy(address);
 
   const [name, setName] = useState('New Poll');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [contentHash, setContentHash] = useState('');
   const [options, setOptions] = useState<string[]>(['Option A', 'Option B']);
+  const [optionSearch, setOptionSearch] = useState('');
+  const [questions, setQuestions] = useState<QuestionDraft[]>(DEFAULT_QUESTIONS);
+  const [minValue, setMinValue] = useState('1');
+  const [maxValue, setMaxValue] = useState('10');
+  const [bucketCount, setBucketCount] = useState('5');
   const [startAt, setStartAt] = useState('');
   const [endAt, setEndAt] = useState('');
+  const [ballot, setBallot] = useState<BallotMode>('single');
+  const [eligibility, setEligibility] = useState<EligibilityMode>('open');
+  const [allowlistText, setAllowlistText] = useState('');
+  const [weighted, setWeighted] = useState(false);
+  const [allowRevote, setAllowRevote] = useState(false);
+  const [quorum, setQuorum] = useState('');
+  const [bounty, setBounty] = useState('');
+  const [reveal, setReveal] = useState<RevealMode>('tallies');
+  const [actions, setActions] = useState<ActionDraft[]>([EMPTY_ACTION, EMPTY_ACTION]);
+  const [weightToken, setWeightToken] = useState('');
+  const [snapshotBlock, setSnapshotBlock] = useState('');
+
+  const { data: blockNumber } = useBlockNumber({ query: { enabled: weighted } });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -33,8 +97,73 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
     setEndAt(utcLocalDateTime(end));
   }, []);
 
-  const canAddOption = useMemo(() => options.length < 4, [options]);
+  const { data: contractMaxOptions } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'maxOptions',
+  });
+
+  // Until the contract limit loads, only the two default options are allowed.
+  const contractLimit = contractMaxOptions === undefined ? 2 : Number(contractMaxOptions);
+  const maxOptions = ballot === 'ranked' ? Math.min(contractLimit, MAX_RANKED_OPTIONS) : contractLimit;
+  const canAddOption = useMemo(() => options.length < maxOptions, [options, maxOptions]);
   const canRemoveOption = useMemo(() => options.length > 2, [options]);
+  // Every counter of a ranked poll, survey or numeric poll is needed to read its results.
+  const revealsTallies = ballot === 'ranked' || ballot === 'survey' || ballot === 'numeric';
+  // Actions run from one winning option's published tally, which these polls and winner-only polls never have.
+  const canCarryActions = EXECUTOR_ADDRESS !== ZeroAddress && !revealsTallies && reveal === 'tallies';
+  const tags = useMemo(() => splitList(tagsText), [tagsText]);
+  const surveyOptionCount = useMemo(
+    () => questions.reduce((total, question) => total + splitList(question.options).length, 0),
+    [questions],
+  );
+  // The histogram buckets of a numeric poll become its options.
+  const buckets = useMemo(() => {
+    const isWhole = (text: string) => /^\d+$/.test(text) && Number(text) <= MAX_UINT32;
+    if (!isWhole(minValue) || !isWhole(maxValue) || !/^\d+$/.test(bucketCount)) {
+      return { labels: [] as string[], error: 'The range and bucket count must be whole numbers.' };
+    }
+    try {
+      const labels = numericBuckets(Number(minValue), Number(maxValue), Number(bucketCount)).map(bucketLabel);
+      return { labels, error: '' };
+    } catch (err) {
+      return { labels: [] as string[], error: err instanceof Error ? err.message : 'Invalid range.' };
+    }
+  }, [minValue, maxValue, bucketCount]);
+
+  const allowlist = useMemo(() => {
+    if (eligibility === 'open') return { addresses: [] as string[], root: ZeroHash, error: '' };
+    try {
+      const addresses = parseAddressList(allowlistText);
+      const root = eligibility === 'merkle' && addresses.length > 0 ? buildMerkleAllowlist(addresses).root : ZeroHash;
+      return { addresses, root, error: '' };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Invalid allowlist.';
+      return { addresses: [] as string[], root: ZeroHash, error: message };
+    }
+  }, [eligibility, allowlistText]);
+
+  const toggleWeighted = (checked: boolean) => {
+    setWeighted(checked);
+    if (checked && !snapshotBlock && blockNumber) {
+      setSnapshotBlock((blockNumber - 1n).toString());
+    }
+  };
+
+  const changeBallot = (mode: BallotMode) => {
+    setBallot(mode);
+    // Allocation ballots are sized by the creator's private allowances, not by token balances, and a numeric poll's
+    // sum of values times token balances could overflow its counter.
+    if (mode === 'allocation' || mode === 'numeric') setWeighted(false);
+    // The instant-runoff count needs every ranking counter, a survey has a winner per question and a numeric poll
+    // reports a mean and histogram instead of a winner.
+    if (mode === 'ranked' || mode === 'survey' || mode === 'numeric') setReveal('tallies');
+  };
+
+  const loadAllowlistFile = async (file: File | undefined) => {
+    if (!file) return;
+    setAllowlistText(await file.text());
+  };
 
   const updateOption = (idx: number, value: string) => {
     setOptions((prev) => prev.map((opt, i) => (i === idx ? value : opt)));
@@ -42,12 +171,30 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
 
   const addOption = () => {
     if (!canAddOption) return;
-    setOptions((prev) => [...prev, `Option ${String.fromCharCode(65 + prev.length)}`]);
+    setOptions((prev) => [...prev, `Option ${prev.length + 1}`]);
+    setActions((prev) => [...prev, EMPTY_ACTION]);
   };
 
   const removeOption = (idx: number) => {
     if (!canRemoveOption) return;
     setOptions((prev) => prev.filter((_, i) => i !== idx));
+    setActions((prev) => prev.filter((_, i) => i !== idx));
+  };
+
+  const updateQuestion = (idx: number, field: keyof QuestionDraft, value: string) => {
+    setQuestions((prev) => prev.map((question, i) => (i === idx ? { ...question, [field]: value } : question)));
+  };
+
+  const addQuestion = () => {
+    setQuestions((prev) => [...prev, { prompt: `Question ${prev.length + 1}`, options: 'Yes, No' }]);
+  };
+
+  const removeQuestion = (idx: number) => {
+    setQuestions((prev) => prev.filter((_, i) => i !== idx));
+  };
+
+  const updateAction = (idx: number, field: keyof ActionDraft, value: string) => {
+    setActions((prev) => prev.map((action, i) => (i === idx ? { ...action, [field]: value } : action)));
   };
 
   const handleCreate = async (e: React.FormEvent) => {
@@ -58,10 +205,39 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
       setError('Connect your wallet to create a poll.');
       return;
     }
+    if (policy.blockedReason) {
+      setError(policy.blockedReason);
+      return;
+    }
 
     const trimmedOptions = options.map((opt) => opt.trim()).filter(Boolean);
-    if (trimmedOptions.length < 2 || trimmedOptions.length > 4) {
-      setError('Provide between 2 and 4 options.');
+    const surveyQuestions = questions.map((question) => ({
+      prompt: question.prompt.trim(),
+      options: splitList(question.options),
+    }));
+    if (ballot === 'survey') {
+      const invalid = surveyQuestions.findIndex(
+        (question) => !question.prompt || question.options.length < 2 || question.options.length > maxOptions,
+      );
+      if (invalid !== -1) {
+        setError(`Question ${invalid + 1} needs a prompt and between 2 and ${maxOptions} options.`);
+        return;
+      }
+      if (surveyOptionCount > MAX_SURVEY_OPTIONS) {
+        setError(`A survey can have at most ${MAX_SURVEY_OPTIONS} options across all questions.`);
+        return;
+      }
+    } else if (ballot === 'numeric') {
+      if (buckets.error) {
+        setError(buckets.error);
+        return;
+      }
+      if (buckets.labels.length > maxOptions) {
+        setError(`Use at most ${maxOptions} buckets.`);
+        return;
+      }
+    } else if (trimmedOptions.length < 2 || trimmedOptions.length > maxOptions) {
+      setError(`Provide between 2 and ${maxOptions} options.`);
       return;
     }
 
@@ -82,6 +258,58 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
       return;
     }
 
+    if (eligibility !== 'open') {
+      if (allowlist.error) {
+        setError(allowlist.error);
+        return;
+      }
+      if (allowlist.addresses.length === 0) {
+        setError('Add at least one voter address to the allowlist.');
+        return;
+      }
+    }
+
+    if (quorum && (!/^\d+$/.test(quorum) || Number(quorum) > MAX_UINT32)) {
+      setError('Quorum must be a whole number of voters.');
+      return;
+    }
+
+    if (tags.length > MAX_TAGS) {
+      setError(`Use at most ${MAX_TAGS} tags.`);
+      return;
+    }
+
+    if (bounty && !/^\d*\.?\d{0,18}$/.test(bounty)) {
+      setError('Bounty must be an amount of ETH.');
+      return;
+    }
+
+    let actionCalls: { targets: string[]; calldatas: string[] } | null = null;
+    if (canCarryActions && actions.some((action) => action.target || action.signature)) {
+      try {
+        const specs = actions.map((action, idx): ActionSpec => {
+          if (!action.target && !action.signature) return null;
+          if (!isAddress(action.target)) throw new Error(`Option ${idx + 1}: enter the target contract address.`);
+          return { target: action.target, signature: action.signature, args: splitArguments(action.args) };
+        });
+        actionCalls = encodeActions(specs);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid action.');
+        return;
+      }
+    }
+
+    if (weighted) {
+      if (!isAddress(weightToken)) {
+        setError('Enter the snapshot token address.');
+        return;
+      }
+      if (!/^\d+$/.test(snapshotBlock) || (blockNumber !== undefined && BigInt(snapshotBlock) >= blockNumber)) {
+        setError('Snapshot block must be a past block number.');
+        return;
+      }
+    }
+
     const signer = await signerPromise;
     if (!signer) {
       setError('No signer found.');
@@ -91,11 +319,62 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
     setIsSubmitting(true);
     try {
       const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.createPoll(name.trim(), trimmedOptions, BigInt(startSeconds), BigInt(endSeconds));
-      await tx.wait();
+      const settings = {
+        ballotType: BALLOT_MODES.indexOf(ballot),
+        eligibility: ELIGIBILITY_MODES.indexOf(eligibility),
+        merkleRoot: allowlist.root,
+        weightToken: weighted ? weightToken : ZeroAddress,
+        snapshotBlock: weighted ? BigInt(snapshotBlock) : 0n,
+        allowRevote,
+        quorum: quorum ? Number(quorum) : 0,
+        reveal: REVEAL_MODES.indexOf(reveal),
+        minValue: ballot === 'numeric' ? Number(minValue) : 0,
+        maxValue: ballot === 'numeric' ? Number(maxValue) : 0,
+      };
+      const tx = await contract[ballot === 'survey' ? 'createSurvey' : 'createPoll'](
+        name.trim(),
+        ballot === 'survey' ? surveyQuestions : ballot === 'numeric' ? buckets.labels : trimmedOptions,
+        BigInt(startSeconds),
+        BigInt(endSeconds),
+        settings,
+        { description: description.trim(), category: category.trim(), tags, contentHash: contentHash.trim() },
+        eligibility === 'allowlist' ? allowlist.addresses : [],
+        // The creation deposit is sent on top of the bounty.
+        { value: (bounty ? parseEther(bounty) : 0n) + policy.creationDeposit },
+      );
+      const receipt = await tx.wait();
+      if (actionCalls) {
+        // Actions can only be attached to an existing poll, so read its id from the creation event.
+        const created = (receipt.logs as Log[])
+          .map((log) => contract.interface.parseLog(log))
+          .find((parsed) => parsed?.name === 'PollCreated');
+        if (!created) throw new Error('Poll created, but its id could not be read to attach the actions.');
+        const executor = new Contract(EXECUTOR_ADDRESS, EXECUTOR_ABI, signer);
+        const actionsTx = await executor.setActions(created.args.pollId, actionCalls.targets, actionCalls.calldatas);
+        await actionsTx.wait();
+      }
       onCreated();
+      policy.refetch();
       setName('New Poll');
+      setDescription('');
+      setCategory('');
+      setTagsText('');
+      setContentHash('');
       setOptions(['Option A', 'Option B']);
+      setQuestions(DEFAULT_QUESTIONS);
+      setMinValue('1');
+      setMaxValue('10');
+      setBucketCount('5');
+      setActions([EMPTY_ACTION, EMPTY_ACTION]);
+      setOptionSearch('');
+      setBallot('single');
+      setEligibility('open');
+      setAllowlistText('');
+      setWeighted(false);
+      setAllowRevote(false);
+      setQuorum('');
+      setBounty('');
+      setReveal('tallies');
       const newStart = startSeconds + 600;
       const newEnd = newStart + 3600;
       setStartAt(utcLocalDateTime(newStart));
@@ -108,6 +387,35 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
     }
   };
 
+  const policyRules = [
+    policy.creationDeposit > 0n
+      ? `Each poll locks a ${formatEther(policy.creationDeposit)} ETH deposit, refunded when the poll is finalized ` +
+        'and slashed if you cancel it.'
+      : 'No creation deposit.',
+    policy.maxOpenPolls
+      ? `At most ${policy.maxOpenPolls} open polls per creator` +
+        (policy.openPolls !== undefined ? `; you have ${policy.openPolls}.` : '.')
+      : 'No limit on open polls.',
+    policy.allowlistEnabled ? 'Only allowlisted addresses can create polls.' : '',
+  ];
+
+  const withdrawRefund = async () => {
+    setError('');
+    const signer = await signerPromise;
+    if (!signer || !policy.policyAddress) return;
+    setIsWithdrawing(true);
+    try {
+      const contract = new Contract(policy.policyAddress, CREATOR_POLICY_ABI, signer);
+      const tx = await contract.withdrawRefund();
+      await tx.wait();
+      policy.refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Withdrawal failed.');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
   return (
     <div className="panel panel--form">
       <div className="panel__header">
@@ -129,31 +437,357 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
           />
         </label>
 
-        <div className="field">
-          <div className="field__label">Options (2-4)</div>
-          <div className="options">
-            {options.map((opt, idx) => (
-              <div key={idx} className="option-row">
+        <label className="field">
+          <span className="field__label">Description (optional)</span>
+          <textarea
+            className="field__input field__input--textarea"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What voters are deciding and why"
+            rows={3}
+          />
+        </label>
+
+        <div className="time-grid">
+          <label className="field">
+            <span className="field__label">Category (optional)</span>
+            <input
+              className="field__input"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g. Treasury"
+            />
+          </label>
+          <label className="field">
+            <span className="field__label">Tags (comma separated, up to {MAX_TAGS})</span>
+            <input
+              className="field__input"
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+              placeholder="e.g. q3, budget"
+            />
+          </label>
+        </div>
+
+        <label className="field">
+          <span className="field__label">Proposal document hash (optional)</span>
+          <input
+            className="field__input"
+            value={contentHash}
+            onChange={(e) => setContentHash(e.target.value)}
+            placeholder="e.g. IPFS CID bafy..."
+          />
+        </label>
+
+        {ballot === 'survey' ? (
+          <div className="field">
+            <div className="field__label">
+              Questions (2-{MAX_SURVEY_QUESTIONS}) · {surveyOptionCount}/{MAX_SURVEY_OPTIONS} options
+            </div>
+            {questions.map((question, idx) => (
+              <div key={idx} className="survey-question">
+                <div className="option-row">
+                  <span className="option-row__index">{idx + 1}</span>
+                  <input
+                    className="field__input"
+                    value={question.prompt}
+                    onChange={(e) => updateQuestion(idx, 'prompt', e.target.value)}
+                    placeholder="Question"
+                    required
+                  />
+                  {questions.length > 2 && (
+                    <button type="button" className="ghost-btn" onClick={() => removeQuestion(idx)}>
+                      Remove
+                    </button>
+                  )}
+                </div>
                 <input
                   className="field__input"
-                  value={opt}
-                  onChange={(e) => updateOption(idx, e.target.value)}
+                  value={question.options}
+                  onChange={(e) => updateQuestion(idx, 'options', e.target.value)}
+                  placeholder={`Options, comma separated (2-${maxOptions})`}
                   required
                 />
-                {canRemoveOption && (
-                  <button type="button" className="ghost-btn" onClick={() => removeOption(idx)}>
-                    Remove
-                  </button>
-                )}
               </div>
             ))}
+            {questions.length < MAX_SURVEY_QUESTIONS && (
+              <button type="button" className="ghost-btn ghost-btn--inline" onClick={addQuestion}>
+                + Add question
+              </button>
+            )}
+          </div>
+        ) : ballot === 'numeric' ? (
+          <div className="field">
+            <div className="field__label">Accepted values and histogram buckets</div>
+            <div className="option-row">
+              <input
+                className="field__input"
+                value={minValue}
+                onChange={(e) => setMinValue(e.target.value.trim())}
+                placeholder="Minimum"
+                inputMode="numeric"
+              />
+              <input
+                className="field__input"
+                value={maxValue}
+                onChange={(e) => setMaxValue(e.target.value.trim())}
+                placeholder="Maximum"
+                inputMode="numeric"
+              />
+              <input
+                className="field__input"
+                value={bucketCount}
+                onChange={(e) => setBucketCount(e.target.value.trim())}
+                placeholder="Buckets"
+                inputMode="numeric"
+              />
+            </div>
+            <span className="field__hint">{buckets.error || `Buckets: ${buckets.labels.join(', ')}`}</span>
           </div>
-          {canAddOption && (
-            <button type="button" className="ghost-btn ghost-btn--inline" onClick={addOption}>
-              + Add option
-            </button>
+        ) : (
+          <div className="field">
+            <div className="field__label">
+              Options (2-{maxOptions}) · {options.length} added
+            </div>
+            {options.length > OPTION_SEARCH_THRESHOLD && (
+              <input
+                className="field__input"
+                value={optionSearch}
+                onChange={(e) => setOptionSearch(e.target.value)}
+                placeholder="Search options"
+              />
+            )}
+            <div className={`options ${options.length > OPTION_SEARCH_THRESHOLD ? 'options--scroll' : ''}`}>
+              {options.map((opt, idx) => (
+                <div
+                  key={idx}
+                  className="option-row"
+                  hidden={Boolean(optionSearch) && !opt.toLowerCase().includes(optionSearch.trim().toLowerCase())}
+                >
+                  <span className="option-row__index">{idx + 1}</span>
+                  <input
+                    className="field__input"
+                    value={opt}
+                    onChange={(e) => updateOption(idx, e.target.value)}
+                    required
+                  />
+                  {canRemoveOption && (
+                    <button type="button" className="ghost-btn" onClick={() => removeOption(idx)}>
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {canAddOption && (
+              <button type="button" className="ghost-btn ghost-btn--inline" onClick={addOption}>
+                + Add option
+              </button>
+            )}
+          </div>
+        )}
+
+        <label className="field">
+          <span className="field__label">Ballot</span>
+          <select className="field__input" value={ballot} onChange={(e) => changeBallot(e.target.value as BallotMode)}>
+            <option value="single">Single choice</option>
+            <option value="approval">Approval (voters pick any number of options)</option>
+            <option value="ranked">Ranked choice (instant-runoff count)</option>
+            <option value="allocation">Point allocation (private allowance per voter)</option>
+            <option value="survey">Survey (several questions answered in one ballot)</option>
+            <option value="numeric">Numeric (encrypted value, revealed as a mean and histogram)</option>
+          </select>
+          {ballot === 'allocation' && (
+            <span className="field__hint">
+              After creating the poll, assign each voter an encrypted allowance from its card before voting opens.
+            </span>
           )}
-        </div>
+          {ballot === 'ranked' && (
+            <span className="field__hint">
+              Ranked polls keep a counter for every possible ranking, so they allow at most {MAX_RANKED_OPTIONS}
+              options.
+            </span>
+          )}
+          {ballot === 'survey' && (
+            <span className="field__hint">
+              Voters answer every question in one encrypted ballot, and each question's counts are revealed together
+              when the survey is finalized.
+            </span>
+          )}
+          {ballot === 'numeric' && (
+            <span className="field__hint">
+              Voters submit a whole number, and values outside the range are clamped to it without being revealed. Only
+              the sum and the bucket counts are decrypted, once the poll is finalized.
+            </span>
+          )}
+        </label>
+
+        <label className="field">
+          <span className="field__label">Who can vote</span>
+          <select
+            className="field__input"
+            value={eligibility}
+            onChange={(e) => setEligibility(e.target.value as EligibilityMode)}
+          >
+            <option value="open">Anyone</option>
+            <option value="allowlist">Allowlist (addresses stored on-chain)</option>
+            <option value="merkle">Merkle allowlist (only the root is stored)</option>
+          </select>
+        </label>
+
+        {eligibility !== 'open' && (
+          <div className="field">
+            <div className="field__label">Voter addresses (CSV)</div>
+            <textarea
+              className="field__input field__input--textarea"
+              value={allowlistText}
+              onChange={(e) => setAllowlistText(e.target.value)}
+              placeholder="0xabc...,0xdef..."
+              rows={4}
+            />
+            <input
+              className="field__file"
+              type="file"
+              accept=".csv,.txt"
+              onChange={(e) => loadAllowlistFile(e.target.files?.[0])}
+            />
+            {allowlist.error ? (
+              <div className="field__hint field__hint--error">{allowlist.error}</div>
+            ) : (
+              <div className="field__hint">
+                {allowlist.addresses.length} voter{allowlist.addresses.length === 1 ? '' : 's'}
+                {eligibility === 'merkle' && allowlist.addresses.length > 0 && (
+                  <>
+                    {' '}
+                    · root <span className="meta__value--mono">{allowlist.root}</span>. Share this CSV with voters so
+                    they can build their proofs.
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <label className="field field--toggle">
+          <input
+            type="checkbox"
+            checked={weighted}
+            onChange={(e) => toggleWeighted(e.target.checked)}
+            disabled={ballot === 'allocation' || ballot === 'numeric'}
+          />
+          <span className="field__label">Weighted: one vote per whole token held at a snapshot block</span>
+        </label>
+
+        {weighted && (
+          <div className="time-grid">
+            <label className="field">
+              <span className="field__label">Snapshot token</span>
+              <input
+                className="field__input"
+                value={weightToken}
+                onChange={(e) => setWeightToken(e.target.value.trim())}
+                placeholder="0x... (must implement balanceOfAt)"
+              />
+            </label>
+            <label className="field">
+              <span className="field__label">Snapshot block</span>
+              <input
+                className="field__input"
+                value={snapshotBlock}
+                onChange={(e) => setSnapshotBlock(e.target.value.trim())}
+                placeholder={blockNumber ? (blockNumber - 1n).toString() : 'Block number'}
+                inputMode="numeric"
+              />
+            </label>
+          </div>
+        )}
+
+        <label className="field field--toggle">
+          <input type="checkbox" checked={allowRevote} onChange={(e) => setAllowRevote(e.target.checked)} />
+          <span className="field__label">Let voters change their vote until the poll closes</span>
+        </label>
+
+        <label className="field">
+          <span className="field__label">Results</span>
+          <select
+            className="field__input"
+            value={reveal}
+            onChange={(e) => setReveal(e.target.value as RevealMode)}
+            disabled={revealsTallies}
+          >
+            <option value="tallies">Reveal every option's count</option>
+            <option value="winner">Reveal only the winning option</option>
+            <option value="winner-tie">Reveal the winning option and whether it was a tie</option>
+          </select>
+          {reveal !== 'tallies' && (
+            <span className="field__hint">
+              The winner is computed on encrypted counts; the counts themselves are never revealed. Ties go to the
+              option listed first.
+            </span>
+          )}
+        </label>
+
+        <label className="field">
+          <span className="field__label">Quorum (optional)</span>
+          <input
+            className="field__input"
+            value={quorum}
+            onChange={(e) => setQuorum(e.target.value.trim())}
+            placeholder="No minimum turnout"
+            inputMode="numeric"
+          />
+          <span className="field__hint">
+            Results stay encrypted unless at least this many different addresses vote, so small turnouts cannot be
+            traced back to individual voters.
+          </span>
+        </label>
+
+        <label className="field">
+          <span className="field__label">Finalization bounty in ETH (optional)</span>
+          <input
+            className="field__input"
+            value={bounty}
+            onChange={(e) => setBounty(e.target.value.trim())}
+            placeholder="0"
+            inputMode="decimal"
+          />
+          <span className="field__hint">
+            Paid to whoever finalizes the poll once it ends, so it does not wait on you. Refunded if you cancel.
+          </span>
+        </label>
+
+        {canCarryActions && (
+          <details className="admin-menu">
+            <summary className="meta__label">Advanced: on-chain actions</summary>
+            <span className="field__hint">
+              Once the results are published, anyone can run the winning option's call, e.g. to change a contract
+              parameter. Leave an option empty for no action. Creating the poll then takes a second transaction.
+            </span>
+            {options.map((option, idx) => (
+              <div key={idx} className="admin-menu__section">
+                <span className="field__label">{option || `Option ${idx + 1}`}</span>
+                <input
+                  className="field__input"
+                  value={actions[idx].target}
+                  onChange={(e) => updateAction(idx, 'target', e.target.value.trim())}
+                  placeholder="Target contract 0x..."
+                />
+                <input
+                  className="field__input"
+                  value={actions[idx].signature}
+                  onChange={(e) => updateAction(idx, 'signature', e.target.value)}
+                  placeholder="Function, e.g. setFee(uint256)"
+                />
+                <input
+                  className="field__input"
+                  value={actions[idx].args}
+                  onChange={(e) => updateAction(idx, 'args', e.target.value)}
+                  placeholder="Arguments, comma separated; arrays as JSON"
+                />
+              </div>
+            ))}
+          </details>
+        )}
 
         <div className="time-grid">
           <label className="field">
@@ -178,9 +812,31 @@ export function PollCreator({ onCreated }: PollCreatorProps) {
           </label>
         </div>
 
+        {policy.policyAddress && (
+          <div className="field">
+            <span className="field__label">Creation rules</span>
+            <span className="field__hint">{policyRules.join(' ')}</span>
+            {policy.blockedReason && <span className="field__hint field__hint--error">{policy.blockedReason}</span>}
+            {policy.refund > 0n && (
+              <button
+                type="button"
+                className="ghost-btn ghost-btn--inline"
+                onClick={withdrawRefund}
+                disabled={isWithdrawing}
+              >
+                {isWithdrawing ? 'Withdrawing...' : `Withdraw ${formatEther(policy.refund)} ETH of refunded deposits`}
+              </button>
+            )}
+          </div>
+        )}
+
         {error && <div className="alert alert--error">{error}</div>}
 
-        <button className="primary-btn" type="submit" disabled={isSubmitting || !isConnected}>
+        <button
+          className="primary-btn"
+          type="submit"
+          disabled={isSubmitting || !isConnected || Boolean(policy.blockedReason)}
+        >
           {isSubmitting ? 'Creating...' : 'Launch encrypted poll'}
         </button>
       </form>
@@ -0,0 +1,256 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { isAddress, ZeroAddress } from 'ethers';
+import { useAccount, useReadContract } from 'wagmi';
+import { PollCard, type PollListSummary } from './PollCard';
+import { MAX_QUEUED_VOTES, type QueuedVote } from './VoteQueue';
+import { LENS_ABI, LENS_ADDRESS } from '../config/contracts';
+import { INDEXER_URL } from '../config/services';
+import { type IndexedPollSummary, useIndexedPolls } from '../hooks/useIndexer';
+
+type PollListProps = {
+  totalPolls: number;
+  /** Bumped after any poll action so the current page is read again. */
+  refreshIndex: number;
+  onActionComplete: () => void;
+  voteQueue: QueuedVote[];
+  onQueueVote: (pollId: bigint, vote: QueuedVote | null) => void;
+};
+
+type ListView = 'all' | 'mine' | 'voted';
+type Grouping = 'none' | 'category' | 'tag';
+
+const PAGE_SIZE = 5;
+
+// Bit masks over `VoteGridLens.PollStatus`: Scheduled, Active, Ended, Finalized, Cancelled.
+const STATUS_FILTERS = [
+  { label: 'Any status', mask: 0 },
+  { label: 'Open (scheduled or active)', mask: 0b00011 },
+  { label: 'Active', mask: 0b00010 },
+  { label: 'Awaiting finalization', mask: 0b00100 },
+  { label: 'Finalized', mask: 0b01000 },
+  { label: 'Cancelled', mask: 0b10000 },
+];
+
+// Labels of `VoteGridLens.PollStatus`, as the expanded poll cards show them.
+const STATUS_LABELS = ['Scheduled', 'Active', 'Ended', 'Finalized', 'Cancelled'];
+
+// Same derivation as `VoteGridLens`, so both sources filter alike.
+const indexedStatus = (poll: IndexedPollSummary, now: number) => {
+  if (poll.cancelled) return 4;
+  if (poll.finalized) return 3;
+  if (now < poll.startTime) return 0;
+  if (now < poll.endTime) return 1;
+  return 2;
+};
+
+export function PollList({ totalPolls, refreshIndex, onActionComplete, voteQueue, onQueueVote }: PollListProps) {
+  const { address } = useAccount();
+  // The local indexer, when configured, replaces RPC polling; otherwise the lens answers in one call per page.
+  const hasIndexer = Boolean(INDEXER_URL);
+  const hasLens = !hasIndexer && LENS_ADDRESS !== ZeroAddress;
+  const canFilter = hasIndexer || hasLens;
+
+  const [view, setView] = useState<ListView>('all');
+  const [statusMask, setStatusMask] = useState(0);
+  const [creatorText, setCreatorText] = useState('');
+  const [category, setCategory] = useState('');
+  const [tag, setTag] = useState('');
+  const [grouping, setGrouping] = useState<Grouping>('none');
+  const [page, setPage] = useState(0);
+
+  // Any filter change starts again from the newest polls.
+  useEffect(() => setPage(0), [view, statusMask, creatorText, category, tag, address]);
+
+  const filter = useMemo(() => {
+    const creator = view === 'mine' && address ? address : isAddress(creatorText) ? creatorText : ZeroAddress;
+    return {
+      statuses: statusMask,
+      creator: creator as `0x${string}`,
+      voter: (address ?? ZeroAddress) as `0x${string}`,
+      votedOnly: view === 'voted',
+      category,
+      tag,
+    };
+  }, [view, statusMask, creatorText, category, tag, address]);
+
+  const { data: lensPage, refetch } = useReadContract({
+    address: LENS_ADDRESS,
+    abi: LENS_ABI,
+    functionName: 'getPolls',
+    args: [filter, BigInt(page * PAGE_SIZE), BigInt(PAGE_SIZE)],
+    query: {
+      enabled: hasLens,
+      refetchInterval: 15000,
+    },
+  });
+
+  const { data: indexedPolls, refetch: refetchIndexed } = useIndexedPolls(address);
+
+  useEffect(() => {
+    if (hasLens) refetch();
+    if (hasIndexer) refetchIndexed();
+  }, [hasLens, hasIndexer, refreshIndex, refetch, refetchIndexed]);
+
+  const indexedMatches = useMemo(() => {
+    if (!indexedPolls) return [];
+    const now = Math.floor(Date.now() / 1000);
+    return indexedPolls
+      .filter(
+        (poll) =>
+          (filter.creator === ZeroAddress || poll.creator.toLowerCase() === filter.creator.toLowerCase()) &&
+          (filter.statuses === 0 || (filter.statuses & (1 << indexedStatus(poll, now))) !== 0) &&
+          (!filter.votedOnly || poll.hasVoted === true) &&
+          (!filter.category || poll.category === filter.category) &&
+          (!filter.tag || poll.tags.includes(filter.tag)),
+      )
+      .reverse();
+  }, [indexedPolls, filter]);
+
+  // Without either source, list every poll newest first and page through the ids locally.
+  const matchCount = hasIndexer ? indexedMatches.length : hasLens ? Number(lensPage?.[1] ?? 0) : totalPolls;
+  const pollIds = useMemo(() => {
+    if (hasIndexer) {
+      return indexedMatches.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE).map((poll) => BigInt(poll.pollId));
+    }
+    if (hasLens) return (lensPage?.[0] ?? []).map((summary) => summary.pollId);
+    const first = totalPolls - 1 - page * PAGE_SIZE;
+    return Array.from({ length: Math.max(0, Math.min(PAGE_SIZE, first + 1)) }, (_, idx) => BigInt(first - idx));
+  }, [hasIndexer, indexedMatches, hasLens, lensPage, totalPolls, page]);
+  const pageCount = Math.max(1, Math.ceil(matchCount / PAGE_SIZE));
+
+  // Cards start collapsed on what the lens or indexer returned, so a page costs no reads per poll until one is opened.
+  const summaries = useMemo(() => {
+    const byId = new Map<string, PollListSummary>();
+    if (hasIndexer) {
+      const now = Math.floor(Date.now() / 1000);
+      indexedMatches.forEach((poll) =>
+        byId.set(poll.pollId.toString(), {
+          ...poll,
+          status: poll.finalized && poll.quorumFailed ? 'Failed quorum' : STATUS_LABELS[indexedStatus(poll, now)],
+        }),
+      );
+    } else {
+      (lensPage?.[0] ?? []).forEach((summary) =>
+        byId.set(summary.pollId.toString(), {
+          ...summary,
+          startTime: Number(summary.startTime),
+          endTime: Number(summary.endTime),
+          status: STATUS_LABELS[summary.status],
+        }),
+      );
+    }
+    return byId;
+  }, [hasIndexer, indexedMatches, lensPage]);
+
+  // Groups the polls of the current page; a poll with several tags is listed under each of them.
+  const groups = useMemo(() => {
+    if (grouping === 'none') return [{ label: '', ids: pollIds }];
+    const grouped = new Map<string, bigint[]>();
+    for (const id of pollIds) {
+      const poll = summaries.get(id.toString());
+      const keys =
+        grouping === 'category' ? [poll?.category || 'Uncategorized'] : poll?.tags.length ? poll.tags : ['Untagged'];
+      keys.forEach((key) => grouped.set(key, [...(grouped.get(key) ?? []), id]));
+    }
+    return [...grouped].map(([label, ids]) => ({ label, ids }));
+  }, [grouping, pollIds, summaries]);
+
+  return (
+    <>
+      {canFilter && (
+        <div className="poll-filters">
+          <div className="poll-filters__views">
+            {(['all', 'mine', 'voted'] as ListView[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`ghost-btn ${view === option ? 'ghost-btn--active' : ''}`}
+                onClick={() => setView(option)}
+                disabled={option !== 'all' && !address}
+              >
+                {option === 'all' ? 'All polls' : option === 'mine' ? 'My polls' : 'Polls I voted in'}
+              </button>
+            ))}
+          </div>
+          <select className="field__input" value={statusMask} onChange={(e) => setStatusMask(Number(e.target.value))}>
+            {STATUS_FILTERS.map((status) => (
+              <option key={status.mask} value={status.mask}>
+                {status.label}
+              </option>
+            ))}
+          </select>
+          {view !== 'mine' && (
+            <input
+              className="field__input"
+              value={creatorText}
+              onChange={(e) => setCreatorText(e.target.value.trim())}
+              placeholder="Filter by creator 0x..."
+            />
+          )}
+          <div className="poll-filters__views">
+            <input
+              className="field__input"
+              value={category}
+              onChange={(e) => setCategory(e.target.value.trim())}
+              placeholder="Category"
+            />
+            <input
+              className="field__input"
+              value={tag}
+              onChange={(e) => setTag(e.target.value.trim())}
+              placeholder="Tag"
+            />
+            <select className="field__input" value={grouping} onChange={(e) => setGrouping(e.target.value as Grouping)}>
+              <option value="none">No grouping</option>
+              <option value="category">Group by category</option>
+              <option value="tag">Group by tag</option>
+            </select>
+          </div>
+        </div>
+      )}
+
+      {pollIds.length === 0 && (
+        <div className="panel__empty">
+          {totalPolls === 0 ? 'No polls yet. Create the first encrypted vote above.' : 'No polls match these filters.'}
+        </div>
+      )}
+      <div className="polls">
+        {groups.map((group) => (
+          <Fragment key={group.label}>
+            {group.label && <p className="meta__label">{group.label}</p>}
+            {group.ids.map((id) => (
+              <PollCard
+                key={id.toString()}
+                pollId={id}
+                summary={summaries.get(id.toString())}
+                onActionComplete={onActionComplete}
+                queuedVote={voteQueue.find((vote) => vote.pollId === id)}
+                onQueueVote={onQueueVote}
+                queueFull={voteQueue.length >= MAX_QUEUED_VOTES}
+              />
+            ))}
+          </Fragment>
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="pager">
+          <button type="button" className="ghost-btn" onClick={() => setPage(page - 1)} disabled={page === 0}>
+            Newer
+          </button>
+          <span className="meta__label">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="ghost-btn"
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Contract } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useAccount } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { rankingIndex } from '@shared/irv';
+
+type RankedBallotProps = {
+  pollId: bigint;
+  options: readonly string[];
+  instance: FhevmInstance | null;
+  canVote: boolean;
+  eligibilityProof: readonly string[];
+  /** The voter already voted in a re-votable poll, so submitting replaces their ballot. */
+  isChange: boolean;
+  onVoted: () => void;
+};
+
+export function RankedBallot({
+  pollId,
+  options,
+  instance,
+  canVote,
+  eligibilityProof,
+  isChange,
+  onVoted,
+}: RankedBallotProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+
+  const [ranking, setRanking] = useState<number[]>(() => options.map((_, idx) => idx));
+  const [isVoting, setIsVoting] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  const move = (position: number, offset: number) => {
+    setRanking((prev) => {
+      const next = [...prev];
+      [next[position], next[position + offset]] = [next[position + offset], next[position]];
+      return next;
+    });
+  };
+
+  const submit = async () => {
+    setAlert('');
+    if (!instance || !address) return;
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsVoting(true);
+    try {
+      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      input.add8(rankingIndex(ranking));
+      const encrypted = await input.encrypt();
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.castRankedVote(pollId, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+      await tx.wait();
+      onVoted();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Vote failed';
+      setAlert(message);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  return (
+    <div className="ranking">
+      <p className="meta__label">Order the options, most preferred first</p>
+      {ranking.map((option, position) => (
+        <div key={option} className="ranking__row">
+          <span className="ranking__position">{position + 1}</span>
+          <span className="option__name">{options[option]}</span>
+          <button
+            type="button"
+            className="ghost-btn"
+            onClick={() => move(position, -1)}
+            disabled={!canVote || position === 0}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            className="ghost-btn"
+            onClick={() => move(position, 1)}
+            disabled={!canVote || position === ranking.length - 1}
+          >
+            ↓
+          </button>
+        </div>
+      ))}
+      {alert && <div className="alert alert--error">{alert}</div>}
+      <button className="primary-btn" onClick={submit} disabled={!canVote || isVoting}>
+        {isVoting ? 'Submitting...' : isChange ? 'Change vote' : 'Cast encrypted ranking'}
+      </button>
+    </div>
+  );
+}
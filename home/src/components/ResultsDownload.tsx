@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useChainId, usePublicClient } from 'wagmi';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { INDEXER_URL } from '../config/services';
+import { type IndexedPollSummary } from '../hooks/useIndexer';
+import { buildResultsExport, resultsToCsv, type SurveyQuestion } from '@shared/export';
+
+type ResultsDownloadProps = {
+  pollId: bigint;
+  metadata: { name: string; start: number; end: number; creator: string };
+  options: readonly string[];
+  /** Questions grouping `options` when the poll is a survey. */
+  questions?: readonly SurveyQuestion[];
+  ballotType: number;
+  reveal: number;
+  participants: number;
+  quorum: number;
+  quorumFailed: boolean;
+  /** Encrypted counters, or the encrypted winner and tie flag of winner-only polls. */
+  handles: readonly string[];
+  /** Counts decrypted in the card or read from `getClearResults`; `null` exports the handles only. */
+  counts: readonly bigint[] | null;
+  revealedWinner: { winner: number; tie: boolean | null } | null;
+  published: boolean;
+};
+
+type Format = 'json' | 'csv';
+
+// Saves a finalized poll in the same JSON or CSV layout as `npx hardhat task:export-results`.
+export function ResultsDownload({
+  pollId,
+  metadata,
+  options,
+  questions,
+  ballotType,
+  reveal,
+  participants,
+  quorum,
+  quorumFailed,
+  handles,
+  counts,
+  revealedWinner,
+  published,
+}: ResultsDownloadProps) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const [format, setFormat] = useState<Format>('csv');
+  const [isExporting, setIsExporting] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  // The indexer already recorded the finalize transaction; otherwise look for the event in the chain's logs.
+  const findFinalizeEvent = async () => {
+    if (INDEXER_URL) {
+      const response = await fetch(`${INDEXER_URL}/polls/${pollId}`);
+      if (response.ok) {
+        const poll = (await response.json()) as IndexedPollSummary;
+        return { finalizeTx: poll.finalizedTx, finalizeBlock: poll.finalizedBlock };
+      }
+    }
+    try {
+      const [event] = await publicClient!.getContractEvents({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        eventName: quorumFailed ? 'PollQuorumFailed' : 'PollFinalized',
+        args: { pollId },
+        fromBlock: 0n,
+      });
+      return { finalizeTx: event?.transactionHash ?? null, finalizeBlock: event ? Number(event.blockNumber) : null };
+    } catch {
+      // Many public RPCs refuse log queries over the whole chain; export without the transaction then.
+      return { finalizeTx: null, finalizeBlock: null };
+    }
+  };
+
+  const download = async () => {
+    setAlert('');
+    setIsExporting(true);
+    try {
+      const exported = buildResultsExport({
+        chainId,
+        contract: CONTRACT_ADDRESS,
+        pollId: Number(pollId),
+        name: metadata.name,
+        creator: metadata.creator,
+        startTime: metadata.start,
+        endTime: metadata.end,
+        options,
+        questions,
+        ballotType,
+        reveal,
+        participantCount: participants,
+        quorum,
+        quorumFailed,
+        handles,
+        counts,
+        revealedWinner,
+        published,
+        ...(await findFinalizeEvent()),
+      });
+
+      const body = format === 'json' ? JSON.stringify([exported], null, 2) : resultsToCsv([exported]);
+      const url = URL.createObjectURL(new Blob([body], { type: format === 'json' ? 'application/json' : 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `poll-${pollId}-results.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Export failed';
+      setAlert(message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <select className="field__input" value={format} onChange={(e) => setFormat(e.target.value as Format)}>
+        <option value="csv">CSV</option>
+        <option value="json">JSON</option>
+      </select>
+      <button className="ghost-btn" onClick={download} disabled={isExporting}>
+        {isExporting ? 'Exporting...' : 'Download results'}
+      </button>
+      {alert && <span className="field__hint">{alert}</span>}
+    </>
+  );
+}
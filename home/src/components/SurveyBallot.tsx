@@ -0,0 +1,114 @@
+import { useMemo, useState } from 'react';
+import { Contract } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useAccount } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { splitSurvey } from '@shared/ballot';
+
+type SurveyBallotProps = {
+  pollId: bigint;
+  options: readonly string[];
+  prompts: readonly string[];
+  optionCounts: readonly bigint[];
+  /** Decrypted count of every option, in poll order, once the results are known. */
+  counts: readonly number[] | null;
+  instance: FhevmInstance | null;
+  /** Whether the survey is open and the connected address may answer it. */
+  isOpen: boolean;
+  canVote: boolean;
+  eligibilityProof: readonly string[];
+  /** The voter already answered a re-votable survey, so submitting replaces their ballot. */
+  isChange: boolean;
+  onVoted: () => void;
+};
+
+// Every question is answered in one encrypted input and one `castSurveyVote` transaction.
+export function SurveyBallot({
+  pollId,
+  options,
+  prompts,
+  optionCounts,
+  counts,
+  instance,
+  isOpen,
+  canVote,
+  eligibilityProof,
+  isChange,
+  onVoted,
+}: SurveyBallotProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+
+  const [answers, setAnswers] = useState<(number | null)[]>(() => prompts.map(() => null));
+  const [isVoting, setIsVoting] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  const questionOptions = useMemo(() => splitSurvey(options, optionCounts), [options, optionCounts]);
+  const questionCounts = useMemo(() => (counts ? splitSurvey(counts, optionCounts) : null), [counts, optionCounts]);
+  const complete = answers.every((answer) => answer !== null);
+
+  const choose = (question: number, option: number) => {
+    setAnswers((prev) => prev.map((answer, q) => (q === question ? option : answer)));
+  };
+
+  const submit = async () => {
+    setAlert('');
+    if (!instance || !address) return;
+    const signer = await signerPromise;
+    if (!signer) {
+      setAlert('No signer available.');
+      return;
+    }
+
+    setIsVoting(true);
+    try {
+      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      answers.forEach((answer) => input.add32(answer as number));
+      const encrypted = await input.encrypt();
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.castSurveyVote(pollId, encrypted.handles, encrypted.inputProof, eligibilityProof);
+      await tx.wait();
+      onVoted();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Vote failed';
+      setAlert(message);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  return (
+    <div className="survey">
+      {prompts.map((prompt, q) => (
+        <div key={q} className="survey-question">
+          <p className="meta__label">
+            {q + 1}. {prompt}
+          </p>
+          <div className="options-grid">
+            {questionOptions[q]?.map((option, idx) => (
+              <button
+                key={idx}
+                type="button"
+                className={`option ${answers[q] === idx ? 'option--active' : ''}`}
+                onClick={() => choose(q, idx)}
+                disabled={!isOpen || !canVote}
+              >
+                <div className="option__name">{option}</div>
+                {questionCounts && questionCounts[q]?.[idx] !== undefined && (
+                  <div className="option__count">{questionCounts[q][idx]}</div>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      {alert && <div className="alert alert--error">{alert}</div>}
+      {isOpen && (
+        <button className="primary-btn" onClick={submit} disabled={!canVote || !complete || isVoting}>
+          {isVoting ? 'Submitting...' : isChange ? 'Change answers' : 'Submit encrypted answers'}
+        </button>
+      )}
+    </div>
+  );
+}
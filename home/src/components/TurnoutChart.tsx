@@ -0,0 +1,38 @@
+import { useTurnout } from '../hooks/useIndexer';
+
+type TurnoutChartProps = {
+  pollId: bigint;
+  start: number;
+  end: number;
+};
+
+const WIDTH = 240;
+const HEIGHT = 48;
+// About a dozen points across the voting window, never finer than a minute.
+const bucketFor = (start: number, end: number) => Math.max(60, Math.ceil((end - start) / 12));
+
+// Cumulative distinct voters over the voting window, read from the local event indexer.
+export function TurnoutChart({ pollId, start, end }: TurnoutChartProps) {
+  const { data: points } = useTurnout(pollId, bucketFor(start, end));
+  if (!points || points.length === 0) return null;
+
+  const last = points[points.length - 1];
+  const span = Math.max(1, last.timestamp - start);
+  const peak = Math.max(1, last.voters);
+  const path = [{ timestamp: start, voters: 0 }, ...points]
+    .map((point) => {
+      const x = ((point.timestamp - start) / span) * WIDTH;
+      const y = HEIGHT - (point.voters / peak) * HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div>
+      <p className="meta__label">Turnout over time</p>
+      <svg className="turnout-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+        <polyline points={path} fill="none" stroke="currentColor" strokeWidth="2" />
+      </svg>
+    </div>
+  );
+}
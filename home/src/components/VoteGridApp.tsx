@@ -1,35 +1,58 @@
-import { useMemo, useState } from 'react';
+import { useState } from 'react';
+import { ZeroAddress } from 'ethers';
 import { useAccount, useReadContract } from 'wagmi';
 import { Header } from './Header';
 import { PollCreator } from './PollCreator';
-import { PollCard } from './PollCard';
+import { PollList } from './PollList';
+import { MAX_QUEUED_VOTES, type QueuedVote, VoteQueue } from './VoteQueue';
 import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
 import '../styles/VoteGrid.css';
 
 export function VoteGridApp() {
   const { isConnected } = useAccount();
   const [refreshIndex, setRefreshIndex] = useState(0);
+  const [voteQueue, setVoteQueue] = useState<QueuedVote[]>([]);
+  const isDeployed = CONTRACT_ADDRESS !== ZeroAddress;
 
   const { data: totalPolls, refetch: refetchTotal, isFetching } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'totalPolls',
     query: {
+      enabled: isDeployed,
       refetchInterval: 15000,
     },
   });
 
-  const pollIds = useMemo(() => {
-    if (!totalPolls) return [];
-    const count = Number(totalPolls);
-    return Array.from({ length: count }, (_, idx) => BigInt(idx));
-  }, [totalPolls, refreshIndex]);
-
   const handleRefresh = () => {
     setRefreshIndex((prev) => prev + 1);
     refetchTotal();
   };
 
+  // Queuing a poll again replaces its earlier choice; `null` takes it out of the queue.
+  const queueVote = (pollId: bigint, vote: QueuedVote | null) => {
+    setVoteQueue((prev) => {
+      const rest = prev.filter((item) => item.pollId !== pollId);
+      return vote && rest.length < MAX_QUEUED_VOTES ? [...rest, vote] : rest;
+    });
+  };
+
+  if (!isDeployed) {
+    return (
+      <div className="layout">
+        <Header />
+        <main className="layout__main">
+          <div className="panel">
+            <div className="panel__empty">
+              VoteGrid is not deployed on Sepolia yet. Run `npm run deploy:sepolia` at the repository root, which writes
+              the new contract addresses into this app.
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="layout">
       <div className="layout__glow layout__glow--left" />
@@ -77,14 +100,21 @@ export function VoteGridApp() {
               {!isConnected && (
                 <div className="panel__empty">Connect your wallet to vote or finalize polls on Sepolia.</div>
               )}
-              {pollIds.length === 0 && (
-                <div className="panel__empty">No polls yet. Create the first encrypted vote above.</div>
-              )}
-              <div className="polls">
-                {pollIds.map((id) => (
-                  <PollCard key={id.toString()} pollId={id} onActionComplete={handleRefresh} />
-                ))}
-              </div>
+              <VoteQueue
+                queue={voteQueue}
+                onRemove={(pollId) => queueVote(pollId, null)}
+                onSubmitted={() => {
+                  setVoteQueue([]);
+                  handleRefresh();
+                }}
+              />
+              <PollList
+                totalPolls={totalPolls ? Number(totalPolls) : 0}
+                refreshIndex={refreshIndex}
+                onActionComplete={handleRefresh}
+                voteQueue={voteQueue}
+                onQueueVote={queueVote}
+              />
             </div>
           </div>
         </section>
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Contract } from 'ethers';
+import { useAccount } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+
+/** A single-choice vote waiting to be submitted with the rest of the queue. */
+export type QueuedVote = {
+  pollId: bigint;
+  pollName: string;
+  choice: number;
+  label: string;
+};
+
+type VoteQueueProps = {
+  queue: QueuedVote[];
+  onRemove: (pollId: bigint) => void;
+  onSubmitted: () => void;
+};
+
+// An input proof carries at most 2048 bits, i.e. 64 encrypted 32-bit choices.
+export const MAX_QUEUED_VOTES = 64;
+
+// Submits every queued choice with one encrypted input and one `castVotes` transaction.
+export function VoteQueue({ queue, onRemove, onSubmitted }: VoteQueueProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+  const { instance } = useZamaInstance();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [alert, setAlert] = useState('');
+
+  if (queue.length === 0) return null;
+
+  const submit = async () => {
+    setAlert('');
+    const signer = await signerPromise;
+    if (!signer || !address) {
+      setAlert('Connect your wallet to vote.');
+      return;
+    }
+    if (!instance) {
+      setAlert('Zama encryption is still loading.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      queue.forEach((vote) => input.add32(vote.choice));
+      const encrypted = await input.encrypt();
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.castVotes(
+        queue.map((vote) => vote.pollId),
+        encrypted.handles,
+        encrypted.inputProof,
+      );
+      await tx.wait();
+      onSubmitted();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Submitting votes failed';
+      setAlert(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="vote-queue">
+      <p className="meta__label">Queued votes</p>
+      {queue.map((vote) => (
+        <div key={vote.pollId.toString()} className="vote-queue__item">
+          <span className="meta__value">
+            #{vote.pollId.toString()} {vote.pollName}: <strong>{vote.label}</strong>
+          </span>
+          <button type="button" className="ghost-btn" onClick={() => onRemove(vote.pollId)} disabled={isSubmitting}>
+            Remove
+          </button>
+        </div>
+      ))}
+      {alert && <div className="alert alert--error">{alert}</div>}
+      <button className="primary-btn" onClick={submit} disabled={isSubmitting}>
+        {isSubmitting
+          ? 'Submitting...'
+          : `Submit ${queue.length} vote${queue.length === 1 ? '' : 's'} in one transaction`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+// Optional off-chain services. Leave a URL empty to read everything from the chain directly.
+
+// Event index served by `npx hardhat task:index-serve`, e.g. 'http://localhost:8787'. When set, the poll list and
+// turnout charts read from it instead of polling the RPC.
+export const INDEXER_URL = "";
+
+// Ballot relayer started with `npx hardhat task:relayer`, e.g. 'http://localhost:8788'. When set, single-choice polls
+// offer to sign the ballot and let the relayer submit it, so voting needs no ETH.
+export const RELAYER_URL = "";
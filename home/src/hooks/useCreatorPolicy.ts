@@ -0,0 +1,79 @@
+import { useReadContract } from "wagmi";
+import { ZeroAddress } from "ethers";
+import { CONTRACT_ABI, CONTRACT_ADDRESS, CREATOR_POLICY_ABI } from "../config/contracts";
+
+/** VoteGridCreatorPolicy settings, and where `creator` stands against them; `undefined` fields are still loading. */
+export function useCreatorPolicy(creator: `0x${string}` | undefined) {
+  const { data: policyAddress } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: "creatorPolicy",
+  });
+  const address = (policyAddress ?? ZeroAddress) as `0x${string}`;
+  const creatorAddress = (creator ?? ZeroAddress) as `0x${string}`;
+  const enabled = Boolean(policyAddress);
+  const forCreator = { enabled: enabled && Boolean(creator) };
+  const creatorArgs = [creatorAddress] as const;
+
+  const { data: creationDeposit } = useReadContract({
+    address,
+    abi: CREATOR_POLICY_ABI,
+    functionName: "creationDeposit",
+    query: { enabled },
+  });
+  const { data: maxOpenPolls } = useReadContract({
+    address,
+    abi: CREATOR_POLICY_ABI,
+    functionName: "maxOpenPolls",
+    query: { enabled },
+  });
+  const { data: allowlistEnabled } = useReadContract({
+    address,
+    abi: CREATOR_POLICY_ABI,
+    functionName: "creatorAllowlistEnabled",
+    query: { enabled },
+  });
+  const { data: isAllowed } = useReadContract({
+    address,
+    abi: CREATOR_POLICY_ABI,
+    functionName: "isAllowedCreator",
+    args: creatorArgs,
+    query: forCreator,
+  });
+  const { data: openPolls, refetch: refetchOpenPolls } = useReadContract({
+    address,
+    abi: CREATOR_POLICY_ABI,
+    functionName: "openPollCount",
+    args: creatorArgs,
+    query: forCreator,
+  });
+  const { data: refund, refetch: refetchRefund } = useReadContract({
+    address,
+    abi: CREATOR_POLICY_ABI,
+    functionName: "refunds",
+    args: creatorArgs,
+    query: forCreator,
+  });
+
+  // Mirrors `VoteGridCreatorPolicy.canCreate`.
+  const blockedReason =
+    allowlistEnabled && isAllowed === false
+      ? "Only allowlisted addresses can create polls, and yours is not on the list."
+      : maxOpenPolls && openPolls !== undefined && openPolls >= maxOpenPolls
+        ? `You already have ${openPolls} open polls; finalize or cancel one before creating another.`
+        : "";
+
+  return {
+    policyAddress: enabled ? address : undefined,
+    creationDeposit: creationDeposit ?? 0n,
+    maxOpenPolls,
+    allowlistEnabled,
+    openPolls,
+    refund: refund ?? 0n,
+    blockedReason,
+    refetch: () => {
+      refetchOpenPolls();
+      refetchRefund();
+    },
+  };
+}
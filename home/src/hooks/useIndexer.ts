@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { INDEXER_URL } from "../config/services";
+
+// Response shapes of the HTTP API in src/indexer.ts at the repository root.
+
+export type IndexedPollSummary = {
+  pollId: number;
+  name: string;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  optionCount: number;
+  category: string;
+  tags: string[];
+  cancelled: boolean;
+  finalized: boolean;
+  quorumFailed: boolean;
+  finalizedBlock: number | null;
+  finalizedTx: string | null;
+  participantCount: number;
+  hasVoted?: boolean;
+};
+
+export type TurnoutPoint = { timestamp: number; voters: number };
+
+async function fetchIndex<T>(path: string): Promise<T> {
+  const response = await fetch(`${INDEXER_URL}${path}`);
+  if (!response.ok) throw new Error(`Indexer responded with ${response.status}`);
+  return (await response.json()) as T;
+}
+
+/** Every indexed poll, with `hasVoted` filled in for `voter`; disabled unless `INDEXER_URL` is set. */
+export function useIndexedPolls(voter: string | undefined) {
+  return useQuery({
+    queryKey: ["indexer", "polls", voter],
+    queryFn: () => fetchIndex<IndexedPollSummary[]>(`/polls${voter ? `?voter=${voter}` : ""}`),
+    enabled: Boolean(INDEXER_URL),
+    refetchInterval: 15000,
+  });
+}
+
+/** Distinct voters over time for one poll, in `bucketSeconds` steps. */
+export function useTurnout(pollId: bigint, bucketSeconds: number) {
+  return useQuery({
+    queryKey: ["indexer", "turnout", pollId.toString(), bucketSeconds],
+    queryFn: () => fetchIndex<TurnoutPoint[]>(`/polls/${pollId}/turnout?bucket=${bucketSeconds}`),
+    enabled: Boolean(INDEXER_URL),
+    refetchInterval: 30000,
+  });
+}
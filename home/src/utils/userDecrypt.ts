@@ -0,0 +1,36 @@
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import type { JsonRpcSigner } from "ethers";
+import { CONTRACT_ADDRESS } from "../config/contracts";
+
+const DECRYPT_DURATION_DAYS = "1";
+
+// Decrypt handles the connected wallet has been granted access to, after one EIP-712 signature.
+export async function userDecryptHandles(instance: FhevmInstance, signer: JsonRpcSigner, handles: string[]) {
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000).toString();
+  const contractAddresses = [CONTRACT_ADDRESS];
+
+  const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message,
+  );
+
+  return instance.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress: CONTRACT_ADDRESS })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    contractAddresses,
+    await signer.getAddress(),
+    startTimestamp,
+    DECRYPT_DURATION_DAYS,
+  );
+}
+
+export function toBigInt(value: unknown): bigint {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number" || typeof value === "boolean") return BigInt(value);
+  return BigInt(value as string);
+}
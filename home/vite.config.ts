@@ -1,7 +1,17 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Helpers shared with the Hardhat tasks, imported from src/ at the repository root. Their `ethers` import is
+    // resolved from this app, so the bundle holds one copy and builds without the root dependencies installed.
+    alias: { '@shared': fileURLToPath(new URL('../src', import.meta.url)) },
+    dedupe: ['ethers'],
+  },
+  server: {
+    fs: { allow: ['.', '../src'] },
+  },
 })
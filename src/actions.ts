@@ -0,0 +1,41 @@
+import { FunctionFragment, Interface, ZeroAddress } from "ethers";
+
+/** A poll option's action as written by a person: a target and a human-readable call, or `null` for no action. */
+export type ActionSpec = { target: string; signature: string; args: string[] } | null;
+
+/**
+ * Encode the calldata of a human-readable function signature such as `setFee(uint256)`. Array and tuple arguments are
+ * written as JSON; every other argument is passed through for ethers to convert to the parameter type.
+ */
+export function encodeCall(signature: string, args: readonly string[]): string {
+  const fragment = FunctionFragment.from(`function ${signature.trim()}`);
+  const values = args.map((arg) => (/^[[{]/.test(arg.trim()) ? JSON.parse(arg) : arg.trim()));
+  return new Interface([fragment]).encodeFunctionData(fragment, values);
+}
+
+/** Turn one spec per option into the `targets` and `calldatas` arrays taken by `VoteGridExecutor.setActions`. */
+export function encodeActions(specs: readonly ActionSpec[]): { targets: string[]; calldatas: string[] } {
+  return {
+    targets: specs.map((spec) => spec?.target ?? ZeroAddress),
+    calldatas: specs.map((spec) => (spec ? encodeCall(spec.signature, spec.args) : "0x")),
+  };
+}
+
+/** Split a comma separated argument list, keeping commas inside JSON arrays and tuples together. */
+export function splitArguments(text: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if (char === "," && depth === 0) {
+      args.push(current.trim());
+      current = "";
+      continue;
+    }
+    if (char === "[" || char === "{") depth++;
+    if (char === "]" || char === "}") depth--;
+    current += char;
+  }
+  if (current.trim()) args.push(current.trim());
+  return args;
+}
@@ -0,0 +1,80 @@
+import { getAddress, isAddress, solidityPackedKeccak256 } from "ethers";
+
+export type MerkleAllowlist = {
+  root: string;
+  proofs: Record<string, string[]>;
+};
+
+/**
+ * Parse a CSV or newline separated list of addresses. Blank cells and a non-address header row are ignored,
+ * duplicates are dropped and every address is returned checksummed.
+ */
+export function parseAddressList(text: string): string[] {
+  const cells = text
+    .split(/[\s,;]+/)
+    .map((cell) => cell.trim().replace(/^"|"$/g, ""))
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  const addresses: string[] = [];
+  cells.forEach((cell, idx) => {
+    if (!isAddress(cell)) {
+      if (idx === 0) return;
+      throw new Error(`Invalid address in allowlist: ${cell}`);
+    }
+    const address = getAddress(cell);
+    if (!seen.has(address)) {
+      seen.add(address);
+      addresses.push(address);
+    }
+  });
+  return addresses;
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? solidityPackedKeccak256(["bytes32", "bytes32"], [a, b])
+    : solidityPackedKeccak256(["bytes32", "bytes32"], [b, a]);
+}
+
+export function merkleLeaf(address: string): string {
+  return solidityPackedKeccak256(["address"], [getAddress(address)]);
+}
+
+/**
+ * Build the sorted-pair Merkle tree that `VoteGrid` verifies for `MerkleRoot` polls and return its root together
+ * with the proof of every address, keyed by checksummed address.
+ */
+export function buildMerkleAllowlist(addresses: string[]): MerkleAllowlist {
+  if (addresses.length === 0) {
+    throw new Error("Allowlist is empty");
+  }
+
+  const voters = addresses.map((address) => getAddress(address));
+  const levels: string[][] = [voters.map(merkleLeaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      // An odd node out is promoted unchanged to the next level.
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  voters.forEach((voter, leafIndex) => {
+    const proof: string[] = [];
+    let idx = leafIndex;
+    for (let level = 0; level < levels.length - 1; level++) {
+      const sibling = idx % 2 === 0 ? idx + 1 : idx - 1;
+      if (sibling < levels[level].length) {
+        proof.push(levels[level][sibling]);
+      }
+      idx = Math.floor(idx / 2);
+    }
+    proofs[voter] = proof;
+  });
+
+  return { root: levels[levels.length - 1][0], proofs };
+}
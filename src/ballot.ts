@@ -0,0 +1,56 @@
+import { rankingFromIndex } from "./irv";
+
+/** Ballot types in `VoteGrid.BallotType` order. */
+export const BALLOT_TYPES = ["single", "allocation", "approval", "ranked", "survey", "numeric"] as const;
+
+export type BallotTypeName = (typeof BALLOT_TYPES)[number];
+
+/** Result reveal modes in `VoteGrid.ResultReveal` order. */
+export const REVEAL_MODES = ["tallies", "winner", "winner-tie"] as const;
+
+export type RevealModeName = (typeof REVEAL_MODES)[number];
+
+/**
+ * Describe a voter's decrypted ballot, i.e. what it added to every counter (see `VoteGrid.getBallot`).
+ * Ballots rejected by the contract's encrypted validity checks add nothing and are reported as not counted.
+ */
+export function describeBallot(ballotType: number, options: readonly string[], increments: bigint[]): string {
+  const ballot = BALLOT_TYPES[ballotType];
+  if (increments.length === 0) {
+    return "No ballot cast";
+  }
+  if (increments.every((value) => value === 0n)) {
+    return ballot === "approval" ? "No option approved" : "Not counted (the ballot failed validation)";
+  }
+
+  if (ballot === "ranked") {
+    const index = increments.findIndex((value) => value > 0n);
+    return rankingFromIndex(index, options.length)
+      .map((option, position) => `${position + 1}. ${options[option]}`)
+      .join(", ");
+  }
+  if (ballot === "numeric") {
+    // The bucket counter holds the voter's weight and the sum counter, last, their value times that weight.
+    const bucket = increments.findIndex((value) => value > 0n);
+    const value = increments[increments.length - 1] / increments[bucket];
+    return `${value.toString()} (${options[bucket]})`;
+  }
+  if (ballot === "allocation") {
+    return options.map((option, i) => `${option}: ${increments[i].toString()}`).join(", ");
+  }
+  // Single-choice, approval and survey ballots add the voter's weight to every selected option.
+  return options.filter((_, i) => increments[i] > 0n).join(", ");
+}
+
+/**
+ * Split a survey's flat per-option values (options, counts or ballot increments) into one list per question,
+ * using the option counts returned by `VoteGrid.getSurveyQuestions`.
+ */
+export function splitSurvey<T>(values: readonly T[], optionCounts: readonly (number | bigint)[]): T[][] {
+  let offset = 0;
+  return optionCounts.map((count) => {
+    const question = values.slice(offset, offset + Number(count));
+    offset += Number(count);
+    return question;
+  });
+}
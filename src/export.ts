@@ -0,0 +1,215 @@
+import { BALLOT_TYPES, type BallotTypeName, REVEAL_MODES, type RevealModeName, splitSurvey } from "./ballot";
+import { instantRunoff, rankingFromIndex } from "./irv";
+
+/** What a finalized poll's export is built from: its views, its finalize event and what has been decrypted. */
+export type PollResultsSource = {
+  chainId: number;
+  contract: string;
+  pollId: number;
+  name: string;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  options: readonly string[];
+  /** Questions of a survey from `getSurveyQuestions`, which group `options` in order; omitted for other polls. */
+  questions?: readonly SurveyQuestion[];
+  /** `VoteGrid.BallotType` and `VoteGrid.ResultReveal` values. */
+  ballotType: number;
+  reveal: number;
+  participantCount: number;
+  quorum: number;
+  quorumFailed: boolean;
+  /** `getEncryptedResults` for tally polls, `[winner, tie]` from `getEncryptedWinner` for winner-only polls. */
+  handles: readonly string[];
+  /** Decrypted counters of a tally poll in `handles` order, or `null` when they have not been decrypted. */
+  counts: readonly bigint[] | null;
+  /** Decrypted winner of a winner-only poll; `tie` is `null` unless the poll reveals ties. */
+  revealedWinner: { winner: number; tie: boolean | null } | null;
+  /** Whether `counts` come from `getClearResults`, i.e. were checked on-chain against the KMS proof. */
+  published: boolean;
+  finalizeTx: string | null;
+  finalizeBlock: number | null;
+};
+
+/** One survey question and how many of the poll's options belong to it. */
+export type SurveyQuestion = {
+  prompt: string;
+  optionCount: number;
+};
+
+/** One encrypted counter: an option, a complete ranking in ranked polls, or the sum of a numeric poll's values. */
+export type ExportedCounter = {
+  index: number;
+  label: string;
+  handle: string;
+  count: string | null;
+};
+
+/** Archived outcome of a finalized poll. Counts are decimal strings so 64-bit values survive JSON. */
+export type PollResultsExport = {
+  chainId: number;
+  contract: string;
+  pollId: number;
+  name: string;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  ballotType: BallotTypeName;
+  reveal: RevealModeName;
+  options: string[];
+  questions: SurveyQuestion[];
+  participantCount: number;
+  quorum: number;
+  quorumFailed: boolean;
+  finalizeTx: string | null;
+  finalizeBlock: number | null;
+  resultsPublished: boolean;
+  counters: ExportedCounter[];
+  /**
+   * Winning option, by plurality or instant runoff for ranked polls; `null` when unknown or tied, for surveys, whose
+   * questions each have their own winner, and for numeric polls.
+   */
+  winner: { option: number; label: string } | null;
+  tie: boolean | null;
+  /** Encrypted winner index and tie flag of winner-only polls. */
+  winnerHandles: string[];
+};
+
+/** Turn the on-chain and decrypted data of a finalized poll into its export record. */
+export function buildResultsExport(source: PollResultsSource): PollResultsExport {
+  const ballotType = BALLOT_TYPES[source.ballotType];
+  const reveal = REVEAL_MODES[source.reveal];
+  const winnerOnly = reveal !== "tallies" && !source.quorumFailed;
+  const questions = source.questions ?? [];
+  // Survey counters are labelled with their question, since option labels such as "Yes" repeat across questions.
+  const surveyLabels = splitSurvey(
+    source.options,
+    questions.map((question) => question.optionCount),
+  ).flatMap((options, q) => options.map((option) => `${questions[q].prompt}: ${option}`));
+  const counterLabel = (index: number) =>
+    ballotType === "ranked"
+      ? rankingFromIndex(index, source.options.length)
+          .map((option) => source.options[option])
+          .join(" > ")
+      : ballotType === "survey"
+        ? surveyLabels[index]
+        : (source.options[index] ?? "Sum of values");
+
+  const counters = winnerOnly
+    ? []
+    : source.handles.map((handle, index) => ({
+        index,
+        label: counterLabel(index),
+        handle,
+        count: source.counts ? source.counts[index].toString() : null,
+      }));
+
+  let winner: number | null = null;
+  let tie: boolean | null = null;
+  if (winnerOnly && source.revealedWinner) {
+    winner = source.revealedWinner.winner;
+    tie = source.revealedWinner.tie;
+  } else if (!winnerOnly && ballotType !== "survey" && ballotType !== "numeric" && source.counts?.length) {
+    if (ballotType === "ranked") {
+      winner = instantRunoff(source.options.length, source.counts).winner;
+      tie = false;
+    } else {
+      // Counters are compared as bigints, since tallies that differ only above 2^53 would be equal as numbers.
+      const best = source.counts.reduce((max, value) => (value > max ? value : max));
+      tie = source.counts.filter((value) => value === best).length > 1;
+      winner = tie ? null : source.counts.indexOf(best);
+    }
+  }
+
+  return {
+    chainId: source.chainId,
+    contract: source.contract,
+    pollId: source.pollId,
+    name: source.name,
+    creator: source.creator,
+    startTime: source.startTime,
+    endTime: source.endTime,
+    ballotType,
+    reveal,
+    options: [...source.options],
+    questions: questions.map((question) => ({ ...question })),
+    participantCount: source.participantCount,
+    quorum: source.quorum,
+    quorumFailed: source.quorumFailed,
+    finalizeTx: source.finalizeTx,
+    finalizeBlock: source.finalizeBlock,
+    resultsPublished: source.published,
+    counters,
+    winner: winner === null ? null : { option: winner, label: source.options[winner] },
+    tie,
+    winnerHandles: winnerOnly ? [...source.handles] : [],
+  };
+}
+
+const CSV_COLUMNS = [
+  "chain_id",
+  "contract",
+  "poll_id",
+  "poll_name",
+  "creator",
+  "start_time",
+  "end_time",
+  "ballot_type",
+  "reveal",
+  "participants",
+  "quorum",
+  "quorum_failed",
+  "finalize_tx",
+  "finalize_block",
+  "results_published",
+  "winner",
+  "tie",
+  "counter",
+  "label",
+  "count",
+  "handle",
+];
+
+function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten exports into CSV with one row per counter and the poll's columns repeated on each row. Polls without
+ * counters (failed quorum, winner-only) get a single row; for winner-only polls its `handle` is the encrypted winner.
+ */
+export function resultsToCsv(exports: readonly PollResultsExport[]): string {
+  const rows = exports.flatMap((poll) => {
+    const pollColumns = [
+      poll.chainId,
+      poll.contract,
+      poll.pollId,
+      poll.name,
+      poll.creator,
+      poll.startTime,
+      poll.endTime,
+      poll.ballotType,
+      poll.reveal,
+      poll.participantCount,
+      poll.quorum,
+      poll.quorumFailed,
+      poll.finalizeTx,
+      poll.finalizeBlock,
+      poll.resultsPublished,
+      poll.winner?.label ?? null,
+      poll.tie,
+    ];
+    if (poll.counters.length === 0) {
+      return [[...pollColumns, null, null, null, poll.winnerHandles[0] ?? null]];
+    }
+    return poll.counters.map((counter) => [
+      ...pollColumns,
+      counter.index,
+      counter.label,
+      counter.count,
+      counter.handle,
+    ]);
+  });
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,326 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { type Interface, type Log, type Provider } from "ethers";
+
+/** One ballot event: a voter's first ballot (`VoteCast`) or a replacement (`VoteChanged`). */
+export type IndexedVote = {
+  voter: string;
+  changed: boolean;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+};
+
+/** A poll rebuilt from `VoteGrid` events only. */
+export type IndexedPoll = {
+  pollId: number;
+  name: string;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  optionCount: number;
+  /** Labels from `PollLabelled`; empty for polls created without them. */
+  category: string;
+  tags: string[];
+  createdBlock: number;
+  createdTx: string;
+  cancelled: boolean;
+  finalized: boolean;
+  quorumFailed: boolean;
+  finalizedBlock: number | null;
+  finalizedTx: string | null;
+  votes: IndexedVote[];
+};
+
+/** Everything the indexer knows, saved as JSON between runs. */
+export type IndexStore = {
+  chainId: number;
+  contract: string;
+  /** Last block whose events are in `polls`; the next sync starts after it. */
+  lastBlock: number;
+  polls: IndexedPoll[];
+};
+
+export type SyncOptions = {
+  /** Blocks requested per `eth_getLogs` call; public RPCs often cap the range. */
+  batchSize?: number;
+  /** Last block to index, defaulting to the latest block. */
+  toBlock?: number;
+  /**
+   * Called after each batch that changed the polls is committed to the store, e.g. to save it, and once at the end if
+   * later batches only moved `lastBlock`.
+   */
+  onBatch?: (store: IndexStore) => void;
+};
+
+/** A point of a turnout curve: distinct voters who had voted by `timestamp`. */
+export type TurnoutPoint = { timestamp: number; voters: number };
+
+/** Start an empty store that indexes `contract` from `fromBlock` on, which must not be after its first poll. */
+export function createStore(chainId: number, contract: string, fromBlock: number): IndexStore {
+  return { chainId, contract, lastBlock: fromBlock - 1, polls: [] };
+}
+
+/** Load a store saved by `saveStore`, or return `undefined` if there is none for this chain and contract yet. */
+export function loadStore(file: string, chainId: number, contract: string): IndexStore | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const store = JSON.parse(fs.readFileSync(file, "utf8")) as IndexStore;
+  // A store written for another deployment would mix unrelated polls.
+  if (store.chainId !== chainId || store.contract.toLowerCase() !== contract.toLowerCase()) {
+    return undefined;
+  }
+  return store;
+}
+
+export function saveStore(file: string, store: IndexStore): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(store, null, 2));
+}
+
+/**
+ * Replay the `VoteGrid` events emitted since the store's last block into it, in batches of `batchSize` blocks.
+ * Only logs and the blocks they were emitted in are read; no view is called per poll.
+ * Each batch is applied to a copy of the polls and committed together with `lastBlock`, so a sync that fails partway
+ * leaves the store at the end of the last whole batch and the next sync applies no event twice.
+ * @returns Number of events applied.
+ */
+export async function syncIndex(
+  provider: Provider,
+  voteGrid: Interface,
+  store: IndexStore,
+  options: SyncOptions = {},
+): Promise<number> {
+  const batchSize = options.batchSize ?? 2000;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const timestamps = new Map<number, number>();
+  const blockTime = async (blockNumber: number) => {
+    if (!timestamps.has(blockNumber)) {
+      const block = await provider.getBlock(blockNumber);
+      timestamps.set(blockNumber, block?.timestamp ?? 0);
+    }
+    return timestamps.get(blockNumber)!;
+  };
+
+  let applied = 0;
+  let unsaved = false;
+  for (let from = store.lastBlock + 1; from <= toBlock; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, toBlock);
+    const logs = await provider.getLogs({ address: store.contract, fromBlock: from, toBlock: to });
+    // Most batches of a long catch-up hold no logs; those only move `lastBlock`, without copying or saving the polls.
+    let batchApplied = 0;
+    if (logs.length > 0) {
+      const polls = structuredClone(store.polls);
+      for (const log of logs) {
+        if (await applyLog(voteGrid, polls, log, blockTime)) {
+          batchApplied++;
+        }
+      }
+      store.polls = polls;
+    }
+    store.lastBlock = to;
+    applied += batchApplied;
+    unsaved = batchApplied === 0;
+    if (!unsaved) {
+      options.onBatch?.(store);
+    }
+  }
+  if (unsaved) {
+    options.onBatch?.(store);
+  }
+  return applied;
+}
+
+// Events that update a poll the store must already hold.
+const UPDATE_EVENTS = new Set([
+  "PollLabelled",
+  "VoteCast",
+  "VoteChanged",
+  "PollFinalized",
+  "PollQuorumFailed",
+  "PollCancelled",
+  "PollEndTimeExtended",
+  "PollMetadataEdited",
+]);
+
+async function applyLog(
+  voteGrid: Interface,
+  polls: IndexedPoll[],
+  log: Log,
+  blockTime: (blockNumber: number) => Promise<number>,
+): Promise<boolean> {
+  const event = voteGrid.parseLog(log);
+  if (!event) {
+    return false;
+  }
+  const pollId = Number(event.args.pollId);
+  const poll = polls[pollId];
+  // Polls are listed by id, so a store that missed an earlier `PollCreated` cannot place this poll or its events.
+  const missing = event.name === "PollCreated" ? pollId !== polls.length : UPDATE_EVENTS.has(event.name) && !poll;
+  if (missing) {
+    const first = Math.min(pollId, polls.length);
+    throw new Error(`The index store starts after poll ${first} was created; create it from an earlier block`);
+  }
+
+  switch (event.name) {
+    case "PollCreated": {
+      polls[pollId] = {
+        pollId,
+        name: event.args.name as string,
+        creator: event.args.creator as string,
+        startTime: Number(event.args.startTime),
+        endTime: Number(event.args.endTime),
+        optionCount: Number(event.args.optionCount),
+        category: "",
+        tags: [],
+        createdBlock: log.blockNumber,
+        createdTx: log.transactionHash,
+        cancelled: false,
+        finalized: false,
+        quorumFailed: false,
+        finalizedBlock: null,
+        finalizedTx: null,
+        votes: [],
+      };
+      return true;
+    }
+    case "PollLabelled":
+      poll.category = event.args.category as string;
+      poll.tags = [...(event.args.tags as string[])];
+      return true;
+    case "VoteCast":
+    case "VoteChanged":
+      poll.votes.push({
+        voter: event.args.voter as string,
+        changed: event.name === "VoteChanged",
+        blockNumber: log.blockNumber,
+        timestamp: await blockTime(log.blockNumber),
+        txHash: log.transactionHash,
+      });
+      return true;
+    case "PollFinalized":
+    case "PollQuorumFailed":
+      poll.finalized = true;
+      poll.quorumFailed = event.name === "PollQuorumFailed";
+      poll.finalizedBlock = log.blockNumber;
+      poll.finalizedTx = log.transactionHash;
+      return true;
+    case "PollCancelled":
+      poll.cancelled = true;
+      return true;
+    case "PollEndTimeExtended":
+      poll.endTime = Number(event.args.endTime);
+      return true;
+    case "PollMetadataEdited":
+      poll.name = event.args.name as string;
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Number of distinct addresses that voted in a poll; replaced ballots count once. */
+export function participantCount(poll: IndexedPoll): number {
+  return poll.votes.filter((vote) => !vote.changed).length;
+}
+
+/** Largest number of points a turnout curve may have. */
+export const MAX_TURNOUT_POINTS = 1000;
+
+/** Smallest interval, in seconds, that keeps a poll's turnout curve within `MAX_TURNOUT_POINTS` points. */
+export function minTurnoutBucket(poll: IndexedPoll): number {
+  const last = Math.max(poll.endTime, ...poll.votes.map((vote) => vote.timestamp));
+  return Math.max(1, Math.ceil((last - poll.startTime) / MAX_TURNOUT_POINTS));
+}
+
+/**
+ * Cumulative distinct voters at the end of every `bucketSeconds` interval from the poll's start to the later of its
+ * end and its last vote. Throws if `bucketSeconds` is below `minTurnoutBucket(poll)`.
+ */
+export function turnoutOverTime(poll: IndexedPoll, bucketSeconds: number): TurnoutPoint[] {
+  const minimum = minTurnoutBucket(poll);
+  if (bucketSeconds < minimum) {
+    throw new Error(`Turnout buckets of this poll must be at least ${minimum} seconds`);
+  }
+  const firstVotes = poll.votes
+    .filter((vote) => !vote.changed)
+    .map((vote) => vote.timestamp)
+    .sort((a, b) => a - b);
+  const last = Math.max(poll.endTime, ...firstVotes);
+  const points: TurnoutPoint[] = [];
+  let voters = 0;
+  for (let timestamp = poll.startTime + bucketSeconds; ; timestamp += bucketSeconds) {
+    const bucketEnd = Math.min(timestamp, last);
+    while (voters < firstVotes.length && firstVotes[voters] <= bucketEnd) {
+      voters++;
+    }
+    points.push({ timestamp: bucketEnd, voters });
+    if (bucketEnd === last) {
+      return points;
+    }
+  }
+}
+
+/** A poll without its ballot list, as listed by the HTTP API. */
+export type PollSummary = Omit<IndexedPoll, "votes"> & { participantCount: number; hasVoted?: boolean };
+
+/** Summarize a poll; with a `voter`, also report whether that address voted in it. */
+export function summarizePoll(poll: IndexedPoll, voter?: string): PollSummary {
+  const { votes, ...summary } = poll;
+  const hasVoted = voter ? votes.some((vote) => vote.voter.toLowerCase() === voter.toLowerCase()) : undefined;
+  return { ...summary, participantCount: participantCount(poll), hasVoted };
+}
+
+/**
+ * Serve a store over HTTP with permissive CORS so the `home` app can read it:
+ * - `GET /status`: chain id, contract and last indexed block
+ * - `GET /polls?voter=0x...`: every poll without its ballots; `voter` adds whether that address voted
+ * - `GET /polls/:id`: one poll with its ballots
+ * - `GET /polls/:id/turnout?bucket=3600`: turnout over time, hourly by default; a bucket that would give more than
+ *   `MAX_TURNOUT_POINTS` points gets a 400
+ * `getStore` is called on every request, so a caller that keeps syncing serves fresh data.
+ */
+export function createIndexServer(getStore: () => IndexStore): http.Server {
+  return http.createServer((request, response) => {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+      response.end(JSON.stringify(body));
+    };
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const store = getStore();
+    if (request.method !== "GET") {
+      return send(405, { error: "Only GET is supported" });
+    }
+    if (url.pathname === "/status") {
+      return send(200, { chainId: store.chainId, contract: store.contract, lastBlock: store.lastBlock });
+    }
+    if (url.pathname === "/polls") {
+      const voter = url.searchParams.get("voter") ?? undefined;
+      return send(
+        200,
+        store.polls.map((poll) => summarizePoll(poll, voter)),
+      );
+    }
+
+    const match = /^\/polls\/(\d+)(\/turnout)?$/.exec(url.pathname);
+    const poll = match ? store.polls[Number(match[1])] : undefined;
+    if (!poll) {
+      return send(404, { error: "Not found" });
+    }
+    if (match![2]) {
+      const bucket = Number(url.searchParams.get("bucket") ?? 3600);
+      if (!Number.isInteger(bucket) || bucket <= 0) {
+        return send(400, { error: "bucket must be a positive number of seconds" });
+      }
+      const minimum = minTurnoutBucket(poll);
+      if (bucket < minimum) {
+        return send(400, { error: `bucket must be at least ${minimum} seconds for this poll` });
+      }
+      return send(200, turnoutOverTime(poll, bucket));
+    }
+    return send(200, poll);
+  });
+}
@@ -0,0 +1,98 @@
+export type IrvRound = {
+  /** Votes held by each option this round; `null` once the option has been eliminated. */
+  tallies: (bigint | null)[];
+  /** Option eliminated at the end of the round, or `null` in the final round. */
+  eliminated: number | null;
+};
+
+export type IrvResult = {
+  winner: number;
+  rounds: IrvRound[];
+};
+
+function factorial(n: number): number {
+  return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+/** Number of complete rankings, and therefore encrypted counters, of a ranked poll with `optionCount` options. */
+export function rankingCount(optionCount: number): number {
+  return factorial(optionCount);
+}
+
+/**
+ * Position of a complete ranking (option indexes, most preferred first) in the lexicographic order of all rankings.
+ * This is the value voters encrypt when casting a ranked ballot.
+ */
+export function rankingIndex(ranking: number[]): number {
+  const n = ranking.length;
+  const sorted = [...ranking].sort((a, b) => a - b);
+  if (sorted.some((option, i) => option !== i)) {
+    throw new Error(`Ranking must order every option 0-${n - 1} exactly once`);
+  }
+
+  const remaining = [...sorted];
+  let index = 0;
+  ranking.forEach((option, position) => {
+    const rank = remaining.indexOf(option);
+    index += rank * factorial(n - 1 - position);
+    remaining.splice(rank, 1);
+  });
+  return index;
+}
+
+/** Inverse of `rankingIndex`. */
+export function rankingFromIndex(index: number, optionCount: number): number[] {
+  if (!Number.isInteger(index) || index < 0 || index >= rankingCount(optionCount)) {
+    throw new Error(`Ranking index ${index} out of range for ${optionCount} options`);
+  }
+
+  const remaining = Array.from({ length: optionCount }, (_, i) => i);
+  const ranking: number[] = [];
+  let rest = index;
+  for (let position = 0; position < optionCount; position++) {
+    const block = factorial(optionCount - 1 - position);
+    ranking.push(remaining.splice(Math.floor(rest / block), 1)[0]);
+    rest %= block;
+  }
+  return ranking;
+}
+
+/**
+ * Run an instant-runoff count over the decrypted per-ranking counters of a ranked poll.
+ * Each round every ballot counts for its most preferred option still in the race. An option with more than half of
+ * the votes wins; otherwise the option with the fewest votes is eliminated. Ties for last place eliminate the option
+ * with the highest index, so every client computes the same rounds. Counts are 64-bit counters, so they stay bigints.
+ */
+export function instantRunoff(optionCount: number, rankingCounts: readonly bigint[]): IrvResult {
+  if (rankingCounts.length !== rankingCount(optionCount)) {
+    throw new Error(`Expected ${rankingCount(optionCount)} ranking counters, got ${rankingCounts.length}`);
+  }
+
+  const rankings = rankingCounts.map((_, index) => rankingFromIndex(index, optionCount));
+  const active = new Set(Array.from({ length: optionCount }, (_, i) => i));
+  const rounds: IrvRound[] = [];
+
+  for (;;) {
+    const tallies: (bigint | null)[] = Array.from({ length: optionCount }, (_, i) => (active.has(i) ? 0n : null));
+    rankings.forEach((ranking, index) => {
+      const top = ranking.find((option) => active.has(option)) as number;
+      tallies[top] = (tallies[top] as bigint) + rankingCounts[index];
+    });
+
+    const contenders = [...active];
+    const total = contenders.reduce((sum, option) => sum + (tallies[option] as bigint), 0n);
+    const leader = contenders.reduce((best, option) =>
+      (tallies[option] as bigint) > (tallies[best] as bigint) ? option : best,
+    );
+    if (contenders.length === 1 || (tallies[leader] as bigint) * 2n > total) {
+      rounds.push({ tallies, eliminated: null });
+      return { winner: leader, rounds };
+    }
+
+    const loser = contenders.reduce((worst, option) =>
+      (tallies[option] as bigint) <= (tallies[worst] as bigint) ? option : worst,
+    );
+    rounds.push({ tallies, eliminated: loser });
+    active.delete(loser);
+  }
+}
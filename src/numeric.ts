@@ -0,0 +1,42 @@
+/** Inclusive range of values counted by one histogram bucket of a numeric poll. */
+export type NumericBucket = {
+  low: number;
+  high: number;
+};
+
+export type NumericSummary = {
+  /** Responses in each bucket, weighted like the poll's ballots. */
+  histogram: bigint[];
+  /** Total weight of all responses, i.e. the sum of the histogram. */
+  responses: bigint;
+  /** Sum of every clamped value times its voter's weight. */
+  sum: bigint;
+  /** Weighted mean of the values, or `null` when nobody responded. */
+  mean: number | null;
+};
+
+/**
+ * Buckets that split `[minValue, maxValue]` as evenly as possible, matching `BallotLib.numeric`: bucket `i` starts at
+ * `minValue + floor(i * span / bucketCount)` with `span = maxValue - minValue + 1`.
+ */
+export function numericBuckets(minValue: number, maxValue: number, bucketCount: number): NumericBucket[] {
+  const span = maxValue - minValue + 1;
+  if (span < 2 || bucketCount < 2 || bucketCount > span) {
+    throw new Error("Numeric polls need a range of at least 2 values and between 2 and that many buckets");
+  }
+  const start = (i: number) => minValue + Math.floor((i * span) / bucketCount);
+  return Array.from({ length: bucketCount }, (_, i) => ({ low: start(i), high: start(i + 1) - 1 }));
+}
+
+/** Option label of a bucket, e.g. `1-2`, or just `10` for a single value. */
+export function bucketLabel(bucket: NumericBucket): string {
+  return bucket.low === bucket.high ? `${bucket.low}` : `${bucket.low}-${bucket.high}`;
+}
+
+/** Read the decrypted counters of a numeric poll: one per bucket, then the sum of the values. */
+export function summarizeNumeric(counts: readonly bigint[]): NumericSummary {
+  const histogram = counts.slice(0, -1);
+  const sum = counts[counts.length - 1] ?? 0n;
+  const responses = histogram.reduce((total, count) => total + count, 0n);
+  return { histogram, responses, sum, mean: responses > 0n ? Number(sum) / Number(responses) : null };
+}
@@ -0,0 +1,45 @@
+import { keccak256, type Signer, type TypedDataDomain } from "ethers";
+
+/** EIP-712 types of the message voters sign for `VoteGrid.castVoteBySig`. */
+export const SIGNED_BALLOT_TYPES = {
+  Ballot: [
+    { name: "pollId", type: "uint256" },
+    { name: "handle", type: "bytes32" },
+    { name: "proofHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** A signed ballot as posted to a relayer; numbers are decimal strings so the body is plain JSON. */
+export type SignedBallot = {
+  pollId: string;
+  voter: string;
+  handle: string;
+  inputProof: string;
+  eligibilityProof: string[];
+  deadline: string;
+  signature: string;
+};
+
+export function ballotDomain(chainId: bigint | number, contract: string): TypedDataDomain {
+  return { name: "VoteGrid", version: "1", chainId, verifyingContract: contract };
+}
+
+/**
+ * Sign a single-choice ballot for `castVoteBySig`. `handle` and `inputProof` must come from an input encrypted for
+ * `VoteGrid` with the relayer's address as the user, and `nonce` must be the voter's current `nonces` value.
+ */
+export function signBallot(
+  voter: Signer,
+  domain: TypedDataDomain,
+  ballot: { pollId: bigint | number; handle: string; inputProof: string; nonce: bigint; deadline: bigint | number },
+): Promise<string> {
+  return voter.signTypedData(domain, SIGNED_BALLOT_TYPES, {
+    pollId: ballot.pollId,
+    handle: ballot.handle,
+    proofHash: keccak256(ballot.inputProof),
+    nonce: ballot.nonce,
+    deadline: ballot.deadline,
+  });
+}
@@ -0,0 +1,64 @@
+import * as http from "http";
+import { type SignedBallot } from "./relayer";
+
+// Input proofs of a single encrypted value are a few hundred bytes; anything far larger is not a ballot.
+const MAX_BODY_BYTES = 64 * 1024;
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => {
+      body += chunk.toString("utf8");
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Serve a ballot relayer with permissive CORS so the `home` app can reach it:
+ * - `GET /address`: the address voters must encrypt their choice for
+ * - `POST /ballots`: a `SignedBallot`; `submit` sends it and the response carries `{ txHash }`
+ * Ballots that `submit` rejects, e.g. because the transaction would revert, get a 400 with the reason.
+ */
+export function createRelayerServer(relayer: string, submit: (ballot: SignedBallot) => Promise<string>): http.Server {
+  return http.createServer((request, response) => {
+    const cors = { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Headers": "Content-Type" };
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json", ...cors });
+      response.end(JSON.stringify(body));
+    };
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    // Browsers send a preflight request before posting JSON to another origin.
+    if (request.method === "OPTIONS") {
+      response.writeHead(204, { ...cors, "Access-Control-Allow-Methods": "GET, POST" });
+      return response.end();
+    }
+    if (request.method === "GET" && url.pathname === "/address") {
+      return send(200, { address: relayer });
+    }
+    if (request.method !== "POST" || url.pathname !== "/ballots") {
+      return send(404, { error: "Not found" });
+    }
+
+    readBody(request)
+      .then(async (body) => {
+        const ballot = JSON.parse(body) as SignedBallot;
+        const fields = ["pollId", "voter", "handle", "inputProof", "deadline", "signature"] as const;
+        const missing: string[] = fields.filter((field) => typeof ballot[field] !== "string");
+        if (!Array.isArray(ballot.eligibilityProof)) {
+          missing.push("eligibilityProof");
+        }
+        if (missing.length > 0) {
+          return send(400, { error: `Missing ${missing.join(", ")}` });
+        }
+        send(200, { txHash: await submit(ballot) });
+      })
+      .catch((err: unknown) => send(400, { error: err instanceof Error ? err.message : String(err) }));
+  });
+}
@@ -1,6 +1,75 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import * as fs from "fs";
+import * as path from "path";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { type ActionSpec, encodeActions } from "../src/actions";
+import { buildMerkleAllowlist, parseAddressList } from "../src/allowlist";
+import {
+  BALLOT_TYPES,
+  type BallotTypeName,
+  describeBallot,
+  REVEAL_MODES,
+  type RevealModeName,
+  splitSurvey,
+} from "../src/ballot";
+import { buildResultsExport, type PollResultsExport, resultsToCsv } from "../src/export";
+import {
+  createIndexServer,
+  createStore,
+  loadStore,
+  participantCount,
+  saveStore,
+  syncIndex,
+  turnoutOverTime,
+} from "../src/indexer";
+import { instantRunoff, rankingIndex } from "../src/irv";
+import { bucketLabel, numericBuckets, summarizeNumeric } from "../src/numeric";
+
+const ELIGIBILITY_MODES = ["open", "allowlist", "merkle"];
+
+/** Choice parameter `task:cast-vote` reads for each ballot type; allocation polls use `task:cast-allocation`. */
+const CAST_VOTE_PARAMS: Partial<Record<BallotTypeName, string>> = {
+  single: "choice",
+  approval: "choices",
+  ranked: "ranking",
+  survey: "answers",
+  numeric: "value",
+};
+
+// Relayer input proofs carry at most 2048 bits, i.e. 32 encrypted 64-bit values or 64 encrypted 32-bit values.
+const MAX_EUINT64_PER_INPUT = 32;
+const MAX_EUINT32_PER_INPUT = 64;
+
+function readAllowlist(path: string): string[] {
+  const addresses = parseAddressList(fs.readFileSync(path, "utf8"));
+  if (addresses.length === 0) {
+    throw new Error(`No addresses found in ${path}`);
+  }
+  return addresses;
+}
+
+function eligibilityProofFor(
+  settings: { eligibility: bigint; merkleRoot: string },
+  voter: string,
+  allowlistPath: string | undefined,
+): string[] {
+  if (Number(settings.eligibility) !== 2) {
+    return [];
+  }
+  if (!allowlistPath) {
+    throw new Error("This poll uses a Merkle allowlist; provide --allowlist to build your proof");
+  }
+  const { root, proofs } = buildMerkleAllowlist(readAllowlist(allowlistPath));
+  if (root !== settings.merkleRoot) {
+    throw new Error("Allowlist does not match the poll's Merkle root");
+  }
+  if (!proofs[voter]) {
+    throw new Error(`${voter} is not in the allowlist`);
+  }
+  return proofs[voter];
+}
 
 task("task:poll-address", "Prints the VoteGrid address").setAction(async function (_taskArguments: TaskArguments, hre) {
   const { deployments } = hre;
@@ -10,25 +79,168 @@ task("task:poll-address", "Prints the VoteGrid address").setAction(async functio
 
 task("task:create-poll", "Create a new poll")
   .addParam("name", "Poll name")
-  .addParam("options", "Comma separated options (2-4)")
+  .addOptionalParam(
+    "options",
+    "Comma separated options (2 up to the contract's maxOptions); for surveys, each question's options separated by |",
+  )
   .addParam("start", "Start timestamp (seconds)")
   .addParam("end", "End timestamp (seconds)")
+  .addOptionalParam("eligibility", "Who may vote: open, allowlist or merkle", "open")
+  .addOptionalParam("allowlist", "CSV file of voter addresses (allowlist and merkle modes)")
+  .addOptionalParam("ballot", "Ballot type: single, allocation, approval, ranked, survey or numeric", "single")
+  .addOptionalParam("questions", "Survey questions separated by |, one per group of --options (surveys only)")
+  .addOptionalParam("min", "Smallest accepted value (numeric polls)")
+  .addOptionalParam("max", "Largest accepted value (numeric polls)")
+  .addOptionalParam(
+    "buckets",
+    "Histogram buckets the range is split into; they become the options (numeric polls)",
+    "5",
+  )
+  .addOptionalParam("weightToken", "Snapshot ERC-20 whose balances weight each vote")
+  .addOptionalParam("snapshot", "Block whose token balances are used (defaults to the previous block)")
+  .addFlag("allowRevote", "Let voters replace their ballot until the poll ends")
+  .addOptionalParam("quorum", "Distinct voters needed for the results to be revealed (0 for no quorum)", "0")
+  .addOptionalParam("reveal", "What finalization reveals: tallies, winner or winner-tie", "tallies")
+  .addOptionalParam("bounty", "ETH paid to whoever finalizes the poll, refunded if you cancel it", "0")
+  .addOptionalParam("description", "What the poll decides", "")
+  .addOptionalParam("category", "Category used to group and filter polls", "")
+  .addOptionalParam("tags", "Comma separated tags", "")
+  .addOptionalParam("contentHash", "Off-chain document the poll refers to, e.g. the IPFS CID of the proposal", "")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
     const deployment = await deployments.get("VoteGrid");
     const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
 
-    const { name, options, start, end } = taskArguments;
-    const parsedOptions = (options as string).split(",").map((o) => o.trim()).filter(Boolean);
-    if (parsedOptions.length < 2 || parsedOptions.length > 4) {
-      throw new Error("Provide between 2 and 4 options");
+    const {
+      name,
+      options,
+      start,
+      end,
+      eligibility,
+      allowlist,
+      ballot,
+      weightToken,
+      snapshot,
+      allowRevote,
+      quorum,
+      reveal,
+      bounty,
+      description,
+      category,
+      tags,
+      contentHash,
+      questions,
+      min,
+      max,
+      buckets,
+    } = taskArguments;
+    const ballotType = BALLOT_TYPES.indexOf(ballot as BallotTypeName);
+    if (ballotType === -1) {
+      throw new Error(`Ballot type must be one of ${BALLOT_TYPES.join(", ")}`);
+    }
+    const isSurvey = ballot === "survey";
+    const isNumeric = ballot === "numeric";
+    const minValue = isNumeric ? parseInt(min as string, 10) : 0;
+    const maxValue = isNumeric ? parseInt(max as string, 10) : 0;
+    if (isNumeric && (Number.isNaN(minValue) || Number.isNaN(maxValue))) {
+      throw new Error("Numeric polls take --min and --max");
+    }
+    if (!isNumeric && !options) {
+      throw new Error("Provide --options");
     }
 
+    const parseList = (list: string) =>
+      list
+        .split(",")
+        .map((o) => o.trim())
+        .filter(Boolean);
+    const optionGroups = isNumeric
+      ? [numericBuckets(minValue, maxValue, parseInt(buckets as string, 10)).map(bucketLabel)]
+      : isSurvey
+        ? (options as string).split("|").map(parseList)
+        : [parseList(options as string)];
+    const maxOptions = Number(await voteGrid.maxOptions());
+    if (optionGroups.some((group) => group.length < 2 || group.length > maxOptions)) {
+      throw new Error(`Provide between 2 and ${maxOptions} options${isSurvey ? " per question" : ""}`);
+    }
+    const prompts = isSurvey ? ((questions as string | undefined) ?? "").split("|").map((q) => q.trim()) : [];
+    if (isSurvey && prompts.length !== optionGroups.length) {
+      throw new Error("Provide one --questions entry per |-separated group of --options");
+    }
+
+    const revealMode = REVEAL_MODES.indexOf(reveal as RevealModeName);
+    if (revealMode === -1) {
+      throw new Error(`Reveal must be one of ${REVEAL_MODES.join(", ")}`);
+    }
+
+    const mode = ELIGIBILITY_MODES.indexOf(eligibility as string);
+    if (mode === -1) {
+      throw new Error(`Eligibility must be one of ${ELIGIBILITY_MODES.join(", ")}`);
+    }
+    if (mode !== 0 && !allowlist) {
+      throw new Error("Provide --allowlist with the voter addresses");
+    }
+
+    const voters = mode === 0 ? [] : readAllowlist(allowlist as string);
+    const merkleRoot = mode === 2 ? buildMerkleAllowlist(voters).root : ethers.ZeroHash;
+    if (mode === 2) {
+      console.log(`Merkle root for ${voters.length} voters: ${merkleRoot}`);
+    }
+
+    let snapshotBlock = 0;
+    if (weightToken) {
+      snapshotBlock = snapshot ? parseInt(snapshot as string, 10) : (await ethers.provider.getBlockNumber()) - 1;
+      console.log(`Weighting votes by ${weightToken as string} balances at block ${snapshotBlock}`);
+    }
+
+    const settings = {
+      ballotType,
+      eligibility: mode,
+      merkleRoot,
+      weightToken: (weightToken as string | undefined) ?? ethers.ZeroAddress,
+      snapshotBlock,
+      allowRevote: Boolean(allowRevote),
+      quorum: parseInt(quorum as string, 10),
+      reveal: revealMode,
+      minValue,
+      maxValue,
+    };
+
+    const details = {
+      description: description as string,
+      category: category as string,
+      tags: (tags as string)
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      contentHash: contentHash as string,
+    };
+
     const startTs = BigInt(start as string);
     const endTs = BigInt(end as string);
     const [signer] = await ethers.getSigners();
 
-    const tx = await voteGrid.connect(signer).createPoll(name as string, parsedOptions, startTs, endTs);
+    const initialVoters = mode === 1 ? voters : [];
+    // The creator policy's deposit is sent on top of the bounty and refunded when the poll is finalized.
+    const creatorPolicy = await ethers.getContractAt("VoteGridCreatorPolicy", await voteGrid.creatorPolicy());
+    const deposit = await creatorPolicy.creationDeposit();
+    if (deposit > 0n) console.log(`Locking a creation deposit of ${ethers.formatEther(deposit)} ETH`);
+    const value = ethers.parseEther(bounty as string) + deposit;
+
+    const tx = isSurvey
+      ? await voteGrid.connect(signer).createSurvey(
+          name as string,
+          prompts.map((prompt, q) => ({ prompt, options: optionGroups[q] })),
+          startTs,
+          endTs,
+          settings,
+          details,
+          initialVoters,
+          { value },
+        )
+      : await voteGrid
+          .connect(signer)
+          .createPoll(name as string, optionGroups[0], startTs, endTs, settings, details, initialVoters, { value });
     console.log(`Creating poll with tx: ${tx.hash}`);
     await tx.wait();
     console.log("Poll created");
@@ -36,7 +248,124 @@ task("task:create-poll", "Create a new poll")
 
 task("task:cast-vote", "Cast an encrypted vote for a poll")
   .addParam("poll", "Poll id")
-  .addParam("choice", "Zero-based option index to vote for")
+  .addOptionalParam("choice", "Zero-based option index to vote for (single-choice polls)")
+  .addOptionalParam("choices", "Comma separated option indexes to approve, e.g. 0,2 (approval polls)")
+  .addOptionalParam("ranking", "Every option index, most preferred first, e.g. 2,0,1 (ranked polls)")
+  .addOptionalParam("answers", "Comma separated option index within each question, e.g. 1,0,2 (surveys)")
+  .addOptionalParam("value", "Integer answer, clamped to the poll's range (numeric polls)")
+  .addFlag("oneHot", "Encode a single choice as one encrypted flag per option, which costs fewer HCU")
+  .addOptionalParam("allowlist", "CSV file the poll's Merkle root was built from (merkle polls only)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const [signer] = await ethers.getSigners();
+
+    const settings = await voteGrid.getPollSettings(pollId);
+    const eligibilityProof = eligibilityProofFor(settings, signer.address, taskArguments.allowlist);
+    const ballot = BALLOT_TYPES[Number(settings.ballotType)];
+    const ballotParam = CAST_VOTE_PARAMS[ballot];
+    if (!ballotParam) {
+      throw new Error(`Use the dedicated task to vote in ${ballot} polls`);
+    }
+    if (taskArguments[ballotParam] === undefined) {
+      throw new Error(`${ballot} polls take --${ballotParam}`);
+    }
+
+    // The weight the contract counts: the signer's own plus that of every delegator the ballot would count.
+    const weight = await voteGrid.getBallotWeight(pollId, signer.address);
+    if (weight === 0n) {
+      throw new Error(`${signer.address} holds no voting weight in poll ${pollId}, neither own nor delegated`);
+    }
+    console.log(`Casting ${weight.toString()} vote(s)`);
+
+    const input = fhevm.createEncryptedInput(deployment.address, signer.address);
+    let tx;
+    if (ballot === "approval") {
+      const optionCount = (await voteGrid.getOptions(pollId)).length;
+      const approved = new Set((taskArguments.choices as string).split(",").map((c) => parseInt(c.trim(), 10)));
+      for (let i = 0; i < optionCount; i++) {
+        input.addBool(approved.has(i));
+      }
+      const encrypted = await input.encrypt();
+      tx = await voteGrid
+        .connect(signer)
+        .castApprovalVote(pollId, encrypted.handles, encrypted.inputProof, eligibilityProof);
+    } else if (ballot === "ranked") {
+      const ranking = (taskArguments.ranking as string).split(",").map((c) => parseInt(c.trim(), 10));
+      const encrypted = await input.add8(rankingIndex(ranking)).encrypt();
+      tx = await voteGrid
+        .connect(signer)
+        .castRankedVote(pollId, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+    } else if (ballot === "survey") {
+      const answers = (taskArguments.answers as string).split(",").map((c) => parseInt(c.trim(), 10));
+      answers.forEach((answer) => input.add32(answer));
+      const encrypted = await input.encrypt();
+      tx = await voteGrid
+        .connect(signer)
+        .castSurveyVote(pollId, encrypted.handles, encrypted.inputProof, eligibilityProof);
+    } else if (ballot === "numeric") {
+      const encrypted = await input.add32(parseInt(taskArguments.value as string, 10)).encrypt();
+      tx = await voteGrid
+        .connect(signer)
+        .castNumericVote(pollId, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+    } else if (taskArguments.oneHot) {
+      const optionCount = (await voteGrid.getOptions(pollId)).length;
+      const choice = parseInt(taskArguments.choice as string, 10);
+      for (let i = 0; i < optionCount; i++) {
+        input.addBool(i === choice);
+      }
+      const encrypted = await input.encrypt();
+      tx = await voteGrid
+        .connect(signer)
+        .castOneHotVote(pollId, encrypted.handles, encrypted.inputProof, eligibilityProof);
+    } else {
+      const encrypted = await input.add32(parseInt(taskArguments.choice as string, 10)).encrypt();
+      tx = await voteGrid
+        .connect(signer)
+        .castVote(pollId, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+    }
+    console.log(`Voting tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Vote submitted");
+  });
+
+task("task:cast-votes", "Vote in several single-choice polls with one encrypted input and one transaction")
+  .addParam("polls", "Comma separated poll ids, e.g. 0,1,2")
+  .addParam("choices", "Comma separated option indexes, one per poll, e.g. 1,0,2")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollIds = (taskArguments.polls as string).split(",").map((id) => parseInt(id.trim(), 10));
+    const choices = (taskArguments.choices as string).split(",").map((c) => parseInt(c.trim(), 10));
+    if (pollIds.length !== choices.length) {
+      throw new Error("Provide one choice per poll");
+    }
+    if (pollIds.length > MAX_EUINT32_PER_INPUT) {
+      throw new Error(`One input holds at most ${MAX_EUINT32_PER_INPUT} choices`);
+    }
+
+    const [signer] = await ethers.getSigners();
+    const input = fhevm.createEncryptedInput(deployment.address, signer.address);
+    choices.forEach((choice) => input.add32(choice));
+    const encrypted = await input.encrypt();
+
+    const tx = await voteGrid.connect(signer).castVotes(pollIds, encrypted.handles, encrypted.inputProof);
+    console.log(`Voting tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Voted in polls ${pollIds.join(", ")}`);
+  });
+
+task("task:set-allowances", "Assign encrypted voting allowances for an allocation poll")
+  .addParam("poll", "Poll id")
+  .addParam("file", "CSV file with one 'address,points' row per voter")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
     await fhevm.initializeCLIApi();
@@ -44,18 +373,147 @@ task("task:cast-vote", "Cast an encrypted vote for a poll")
     const deployment = await deployments.get("VoteGrid");
     const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
     const pollId = parseInt(taskArguments.poll as string, 10);
-    const choice = parseInt(taskArguments.choice as string, 10);
+
+    const rows = fs
+      .readFileSync(taskArguments.file as string, "utf8")
+      .split(/\r?\n/)
+      .map((line) => line.split(",").map((cell) => cell.trim()))
+      .filter(([address]) => address && ethers.isAddress(address));
+    if (rows.length === 0) {
+      throw new Error(`No 'address,points' rows found in ${taskArguments.file as string}`);
+    }
 
     const [signer] = await ethers.getSigners();
+    for (let offset = 0; offset < rows.length; offset += MAX_EUINT64_PER_INPUT) {
+      const chunk = rows.slice(offset, offset + MAX_EUINT64_PER_INPUT);
+      const input = fhevm.createEncryptedInput(deployment.address, signer.address);
+      chunk.forEach(([, points]) => input.add64(BigInt(points)));
+      const encrypted = await input.encrypt();
+
+      const voters = chunk.map(([address]) => ethers.getAddress(address));
+      const tx = await voteGrid.connect(signer).setAllowances(pollId, voters, encrypted.handles, encrypted.inputProof);
+      console.log(`Allowances for ${voters.length} voters: ${tx.hash}`);
+      await tx.wait();
+    }
+    console.log("Allowances assigned");
+  });
 
-    const encryptedInput = await fhevm.createEncryptedInput(deployment.address, signer.address).add32(choice).encrypt();
+task("task:cast-allocation", "Split your encrypted allowance across the options of an allocation poll")
+  .addParam("poll", "Poll id")
+  .addParam("amounts", "Comma separated points per option, in option order")
+  .addOptionalParam("allowlist", "CSV file the poll's Merkle root was built from (merkle polls only)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const amounts = (taskArguments.amounts as string).split(",").map((a) => BigInt(a.trim()));
+
+    const [signer] = await ethers.getSigners();
+    const settings = await voteGrid.getPollSettings(pollId);
+    const eligibilityProof = eligibilityProofFor(settings, signer.address, taskArguments.allowlist);
+
+    const allowance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await voteGrid.getAllowance(pollId, signer.address),
+      deployment.address,
+      signer,
+    );
+    const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+    if (total > allowance) {
+      // The contract would silently count this ballot as zero.
+      throw new Error(`Total of ${total.toString()} points exceeds your allowance of ${allowance.toString()}`);
+    }
+
+    const input = fhevm.createEncryptedInput(deployment.address, signer.address);
+    amounts.forEach((amount) => input.add64(amount));
+    const encrypted = await input.encrypt();
 
     const tx = await voteGrid
       .connect(signer)
-      .castVote(pollId, encryptedInput.handles[0], encryptedInput.inputProof);
+      .castAllocationVote(pollId, encrypted.handles, encrypted.inputProof, eligibilityProof);
     console.log(`Voting tx: ${tx.hash}`);
     await tx.wait();
-    console.log("Vote submitted");
+    console.log(`Allocated ${total.toString()} of ${allowance.toString()} points`);
+  });
+
+task("task:my-vote", "Decrypt the ballot you cast in a poll; only you can decrypt it")
+  .addParam("poll", "Poll id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const [signer] = await ethers.getSigners();
+    const settings = await voteGrid.getPollSettings(pollId);
+    const options = await voteGrid.getOptions(pollId);
+    const ballot = await voteGrid.getBallot(pollId, signer.address);
+
+    const increments: bigint[] = [];
+    for (const handle of ballot) {
+      increments.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, deployment.address, signer));
+    }
+    console.log(`Your ballot in poll ${pollId}: ${describeBallot(Number(settings.ballotType), options, increments)}`);
+  });
+
+task("task:cancel-poll", "Cancel a poll you created before it ends")
+  .addParam("poll", "Poll id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const [signer] = await ethers.getSigners();
+    const tx = await voteGrid.connect(signer).cancelPoll(pollId);
+    console.log(`Cancel tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Poll cancelled");
+  });
+
+task("task:extend-poll", "Move the end time of a poll you created that has not ended yet")
+  .addParam("poll", "Poll id")
+  .addParam("end", "New end timestamp (seconds)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const [signer] = await ethers.getSigners();
+    const tx = await voteGrid.connect(signer).extendEndTime(pollId, BigInt(taskArguments.end as string));
+    console.log(`Extend tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Poll now ends at ${taskArguments.end}`);
+  });
+
+task("task:edit-poll", "Rename a poll you created, or relabel its options, before it opens")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("name", "New poll name (defaults to the current one)")
+  .addOptionalParam("options", "Comma separated option labels, one per existing option (defaults to the current ones)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const [currentName] = await voteGrid.getPollMetadata(pollId);
+    const name = (taskArguments.name as string | undefined) ?? currentName;
+    const options =
+      taskArguments.options === undefined
+        ? await voteGrid.getOptions(pollId)
+        : (taskArguments.options as string).split(",").map((o) => o.trim());
+
+    const [signer] = await ethers.getSigners();
+    const tx = await voteGrid.connect(signer).editMetadata(pollId, name, options);
+    console.log(`Edit tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Poll metadata updated");
   });
 
 task("task:finalize-poll", "Finalize a poll and make results publicly decryptable")
@@ -73,6 +531,54 @@ task("task:finalize-poll", "Finalize a poll and make results publicly decryptabl
     console.log("Poll finalized");
   });
 
+task("task:finalize-expired", "Finalize every ended poll in batches that fit the gas limit, collecting their bounties")
+  .addOptionalParam("chunk", "Most polls to finalize per transaction", "10")
+  .addOptionalParam("gasCap", "Most gas to spend per transaction (defaults to the block gas limit)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const [signer] = await ethers.getSigners();
+
+    const latest = await ethers.provider.getBlock("latest");
+    if (!latest) {
+      throw new Error("Could not read the latest block");
+    }
+    const gasCap = taskArguments.gasCap ? BigInt(taskArguments.gasCap as string) : latest.gasLimit;
+
+    const expired: number[] = [];
+    const total = Number(await voteGrid.totalPolls());
+    for (let i = 0; i < total; i++) {
+      const [, , end, finalized, , , cancelled] = await voteGrid.getPollMetadata(i);
+      if (!finalized && !cancelled && end <= BigInt(latest.timestamp)) {
+        expired.push(i);
+      }
+    }
+    console.log(`Found ${expired.length} ended polls to finalize`);
+
+    const chunkSize = parseInt(taskArguments.chunk as string, 10);
+    const pending: number[][] = [];
+    for (let i = 0; i < expired.length; i += chunkSize) {
+      pending.push(expired.slice(i, i + chunkSize));
+    }
+
+    while (pending.length > 0) {
+      const batch = pending.shift()!;
+      const estimate = await voteGrid.connect(signer).finalizeExpired.estimateGas(batch);
+      // Finalization cost grows with option count and reveal mode, so halve any batch that does not fit.
+      if (estimate > gasCap && batch.length > 1) {
+        const half = Math.ceil(batch.length / 2);
+        pending.unshift(batch.slice(0, half), batch.slice(half));
+        continue;
+      }
+
+      const tx = await voteGrid.connect(signer).finalizeExpired(batch);
+      console.log(`Finalize polls ${batch.join(", ")} tx: ${tx.hash}`);
+      await tx.wait();
+    }
+    console.log("All ended polls finalized");
+  });
+
 task("task:decrypt-results", "Decrypt results of a finalized poll using your signer key")
   .addParam("poll", "Poll id")
   .setAction(async function (taskArguments: TaskArguments, hre) {
@@ -82,19 +588,384 @@ task("task:decrypt-results", "Decrypt results of a finalized poll using your sig
     const deployment = await deployments.get("VoteGrid");
     const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
     const pollId = parseInt(taskArguments.poll as string, 10);
-    const encryptedResults = await voteGrid.getEncryptedResults(pollId);
 
+    const settings = await voteGrid.getPollSettings(pollId);
+    if (REVEAL_MODES[Number(settings.reveal)] !== "tallies") {
+      const options = await voteGrid.getOptions(pollId);
+      const [winnerHandle, tieHandle] = await voteGrid.getEncryptedWinner(pollId);
+      const winner = Number(await fhevm.publicDecryptEuint(FhevmType.euint8, winnerHandle));
+      const tie = REVEAL_MODES[Number(settings.reveal)] === "winner-tie" && (await fhevm.publicDecryptEbool(tieHandle));
+      console.log(`Poll ${pollId} only reveals its winner: ${options[winner]}${tie ? " (tied for first place)" : ""}`);
+      return;
+    }
+
+    const encryptedResults = await voteGrid.getEncryptedResults(pollId);
     const [signer] = await ethers.getSigners();
+    const counts: bigint[] = [];
+    for (const handle of encryptedResults) {
+      counts.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, deployment.address, signer));
+    }
+
+    if (BALLOT_TYPES[Number(settings.ballotType)] === "survey") {
+      const options = await voteGrid.getOptions(pollId);
+      const [prompts, optionCounts] = await voteGrid.getSurveyQuestions(pollId);
+      const optionGroups = splitSurvey(options, optionCounts);
+      splitSurvey(counts, optionCounts).forEach((questionCounts, q) => {
+        console.log(`${prompts[q]}`);
+        questionCounts.forEach((count, i) => console.log(`  ${optionGroups[q][i]}: ${count.toString()}`));
+      });
+      return;
+    }
+
+    if (BALLOT_TYPES[Number(settings.ballotType)] === "numeric") {
+      const options = await voteGrid.getOptions(pollId);
+      const { histogram, responses, mean } = summarizeNumeric(counts);
+      console.log(`Poll ${pollId}: ${responses.toString()} responses, mean ${mean === null ? "-" : mean.toFixed(2)}`);
+      const largest = histogram.reduce((best, count) => (count > best ? count : best), 0n);
+      histogram.forEach((count, i) => {
+        const bar = largest > 0n ? "#".repeat(Number((count * 40n) / largest)) : "";
+        console.log(`${options[i].padStart(12)} | ${bar} ${count.toString()}`);
+      });
+      return;
+    }
+
     console.log(`Poll ${pollId} has ${encryptedResults.length} options`);
-    for (let i = 0; i < encryptedResults.length; i++) {
-      const clear = await fhevm.userDecryptEuint(
-        FhevmType.euint64,
-        encryptedResults[i],
-        deployment.address,
-        signer,
+    counts.forEach((count, i) => console.log(`Option ${i}: ${count.toString()}`));
+  });
+
+task("task:publish-results", "Publicly decrypt a finalized poll's tallies and record them on-chain with the KMS proof")
+  .addParam("poll", "Poll id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const handles = (await voteGrid.getEncryptedResults(pollId)).map((h) => h as `0x${string}`);
+    const { clearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+    const clearCounts = handles.map((handle) => clearValues[handle] as bigint);
+
+    const [signer] = await ethers.getSigners();
+    const tx = await voteGrid.connect(signer).publishResults(pollId, clearCounts, decryptionProof);
+    console.log(`Publish tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Published results: ${clearCounts.join(", ")}`);
+  });
+
+task("task:export-results", "Write the results of finalized polls to JSON and CSV for archiving")
+  .addOptionalParam("poll", "Poll id; every finalized poll by default")
+  .addOptionalParam("out", "Output path without extension; defaults to exports/<network>-results")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const fromBlock = deployment.receipt?.blockNumber ?? 0;
+
+    const pollIds =
+      taskArguments.poll !== undefined
+        ? [parseInt(taskArguments.poll as string, 10)]
+        : Array.from({ length: Number(await voteGrid.totalPolls()) }, (_, i) => i);
+
+    const exports: PollResultsExport[] = [];
+    for (const pollId of pollIds) {
+      const [name, startTime, endTime, finalized, creator, , cancelled] = await voteGrid.getPollMetadata(pollId);
+      if (!finalized || cancelled) {
+        if (taskArguments.poll !== undefined) {
+          throw new Error(`Poll ${pollId} is not finalized`);
+        }
+        continue;
+      }
+      const options = await voteGrid.getOptions(pollId);
+      const settings = await voteGrid.getPollSettings(pollId);
+      const [prompts, optionCounts] = await voteGrid.getSurveyQuestions(pollId);
+      const [participants, quorum, quorumFailed] = await voteGrid.getTurnout(pollId);
+      const winnerOnly = REVEAL_MODES[Number(settings.reveal)] !== "tallies";
+
+      // Finalization emits exactly one of these events, carrying the transaction and block to archive.
+      const finalizeFilter = quorumFailed
+        ? voteGrid.filters.PollQuorumFailed(pollId)
+        : voteGrid.filters.PollFinalized(pollId);
+      const [finalizeEvent] = await voteGrid.queryFilter(finalizeFilter, fromBlock);
+
+      let handles: string[] = [];
+      let counts: bigint[] | null = null;
+      let published = false;
+      let revealedWinner: { winner: number; tie: boolean | null } | null = null;
+      if (!quorumFailed && winnerOnly) {
+        const [winnerHandle, tieHandle] = await voteGrid.getEncryptedWinner(pollId);
+        const withTie = REVEAL_MODES[Number(settings.reveal)] === "winner-tie";
+        handles = withTie ? [winnerHandle, tieHandle] : [winnerHandle];
+        revealedWinner = {
+          winner: Number(await fhevm.publicDecryptEuint(FhevmType.euint8, winnerHandle)),
+          tie: withTie ? await fhevm.publicDecryptEbool(tieHandle) : null,
+        };
+      } else if (!quorumFailed) {
+        handles = await voteGrid.getEncryptedResults(pollId);
+        try {
+          counts = [...(await voteGrid.getClearResults(pollId))];
+          published = true;
+        } catch {
+          // Not published on-chain yet, so decrypt the tallies through the relayer instead.
+          const { clearValues } = await fhevm.publicDecrypt(handles as `0x${string}`[]);
+          counts = handles.map((handle) => clearValues[handle as `0x${string}`] as bigint);
+        }
+      }
+
+      exports.push(
+        buildResultsExport({
+          chainId,
+          contract: deployment.address,
+          pollId,
+          name,
+          creator,
+          startTime: Number(startTime),
+          endTime: Number(endTime),
+          options,
+          questions: prompts.map((prompt, q) => ({ prompt, optionCount: Number(optionCounts[q]) })),
+          ballotType: Number(settings.ballotType),
+          reveal: Number(settings.reveal),
+          participantCount: Number(participants),
+          quorum: Number(quorum),
+          quorumFailed,
+          handles,
+          counts,
+          revealedWinner,
+          published,
+          finalizeTx: finalizeEvent?.transactionHash ?? null,
+          finalizeBlock: finalizeEvent?.blockNumber ?? null,
+        }),
+      );
+    }
+
+    const out = (taskArguments.out as string | undefined) ?? `exports/${hre.network.name}-results`;
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(`${out}.json`, JSON.stringify(exports, null, 2));
+    fs.writeFileSync(`${out}.csv`, resultsToCsv(exports));
+    console.log(`Exported ${exports.length} finalized polls to ${out}.json and ${out}.csv`);
+  });
+
+task("task:set-actions", "Attach one contract call per option to a poll you created, run by the winning option")
+  .addParam("poll", "Poll id")
+  .addParam(
+    "file",
+    'JSON array with one entry per option: null or { "target": "0x...", "signature": "setFee(uint256)", "args": ["30"] }',
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridExecutor");
+    const executor = await ethers.getContractAt("VoteGridExecutor", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const specs = JSON.parse(fs.readFileSync(taskArguments.file as string, "utf8")) as ActionSpec[];
+    const { targets, calldatas } = encodeActions(specs);
+
+    const [signer] = await ethers.getSigners();
+    const tx = await executor.connect(signer).setActions(pollId, targets, calldatas);
+    console.log(`Set actions tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Actions set for ${targets.length} options`);
+  });
+
+task("task:execute-poll", "Run the winning option's action of a poll whose results are published")
+  .addParam("poll", "Poll id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridExecutor");
+    const executor = await ethers.getContractAt("VoteGridExecutor", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const [signer] = await ethers.getSigners();
+    const tx = await executor.connect(signer).execute(pollId);
+    console.log(`Execute tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Winning action executed");
+  });
+
+task("task:delegate", "Let another address vote on your behalf in every poll, or in one poll with --poll")
+  .addParam("to", "Delegate address")
+  .addOptionalParam("poll", "Poll id; omit to delegate globally")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridDelegation");
+    const delegation = await ethers.getContractAt("VoteGridDelegation", deployment.address);
+    const delegate = ethers.getAddress(taskArguments.to as string);
+
+    const [signer] = await ethers.getSigners();
+    const tx =
+      taskArguments.poll === undefined
+        ? await delegation.connect(signer).delegate(delegate)
+        : await delegation.connect(signer).delegateForPoll(parseInt(taskArguments.poll as string, 10), delegate);
+    console.log(`Delegate tx: ${tx.hash}`);
+    await tx.wait();
+    const scope = taskArguments.poll === undefined ? "every poll" : `poll ${taskArguments.poll}`;
+    console.log(`${delegate} now votes for you in ${scope} unless you vote directly`);
+  });
+
+task("task:undelegate", "Stop your global delegation, or your delegation for one poll with --poll")
+  .addOptionalParam("poll", "Poll id; omit to undelegate globally")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridDelegation");
+    const delegation = await ethers.getContractAt("VoteGridDelegation", deployment.address);
+
+    const [signer] = await ethers.getSigners();
+    const tx =
+      taskArguments.poll === undefined
+        ? await delegation.connect(signer).undelegate()
+        : await delegation.connect(signer).undelegateForPoll(parseInt(taskArguments.poll as string, 10));
+    console.log(`Undelegate tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Delegation removed");
+  });
+
+task("task:delegate-approval", "Choose who may delegate to you, and remove delegators you did not approve")
+  .addOptionalParam("require", "Whether only approved delegators may delegate to you (true/false)")
+  .addOptionalParam("approve", "Comma separated delegators to approve")
+  .addOptionalParam("revoke", "Comma separated delegators to revoke; also removes them from your global list")
+  .addOptionalParam("poll", "With --revoke, also remove them from your list for this poll")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridDelegation");
+    const [signer] = await ethers.getSigners();
+    const delegation = await ethers.getContractAt("VoteGridDelegation", deployment.address, signer);
+    const { require: required, approve, revoke, poll } = taskArguments;
+
+    if (required !== undefined) {
+      const tx = await delegation.setApprovalRequired(required === "true");
+      console.log(`Set approval required tx: ${tx.hash}`);
+      await tx.wait();
+    }
+    for (const [list, approved] of [
+      [approve, true],
+      [revoke, false],
+    ] as const) {
+      if (list === undefined) continue;
+      const tx = await delegation.setDelegatorsApproved(parseAddressList(list as string), approved);
+      console.log(`${approved ? "Approve" : "Revoke"} delegators tx: ${tx.hash}`);
+      await tx.wait();
+    }
+    if (revoke !== undefined && poll !== undefined) {
+      const tx = await delegation.removePollDelegators(
+        parseInt(poll as string, 10),
+        parseAddressList(revoke as string),
       );
-      console.log(`Option ${i}: ${clear.toString()}`);
+      console.log(`Remove poll delegators tx: ${tx.hash}`);
+      await tx.wait();
     }
+    const mode = (await delegation.approvalRequired(signer.address)) ? "approved delegators only" : "anyone";
+    console.log(`${signer.address} accepts delegations from ${mode}`);
+  });
+
+task("task:creator-policy", "Print the poll creation deposit, open-poll cap and creator allowlist")
+  .addOptionalParam("address", "Also print whether this address may create a poll and its refunds")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridCreatorPolicy");
+    const policy = await ethers.getContractAt("VoteGridCreatorPolicy", deployment.address);
+
+    const maxOpenPolls = await policy.maxOpenPolls();
+    console.log(`Owner: ${await policy.owner()}`);
+    console.log(`Creation deposit: ${ethers.formatEther(await policy.creationDeposit())} ETH`);
+    console.log(`Open polls per creator: ${maxOpenPolls === 0n ? "no cap" : maxOpenPolls.toString()}`);
+    console.log(`Creator allowlist: ${(await policy.creatorAllowlistEnabled()) ? "enabled" : "disabled"}`);
+    console.log(`Slashed deposits held: ${ethers.formatEther(await policy.slashedBalance())} ETH`);
+
+    if (taskArguments.address !== undefined) {
+      const creator = ethers.getAddress(taskArguments.address as string);
+      console.log(
+        `${creator}: open polls=${await policy.openPollCount(creator)} | can create=${await policy.canCreate(creator)} | allowlisted=${await policy.isAllowedCreator(creator)} | refunds=${ethers.formatEther(await policy.refunds(creator))} ETH`,
+      );
+    }
+  });
+
+task("task:set-creator-policy", "Change the poll creation deposit, open-poll cap or creator allowlist (owner only)")
+  .addOptionalParam("deposit", "Creation deposit in ETH; 0 for none")
+  .addOptionalParam("maxOpen", "Largest number of open polls per creator; 0 for no cap")
+  .addOptionalParam("restrict", "Whether only allowlisted creators may create polls (true/false)")
+  .addOptionalParam("allow", "Comma separated addresses to add to the creator allowlist")
+  .addOptionalParam("disallow", "Comma separated addresses to remove from the creator allowlist")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridCreatorPolicy");
+    const [signer] = await ethers.getSigners();
+    const policy = await ethers.getContractAt("VoteGridCreatorPolicy", deployment.address, signer);
+    const { deposit, maxOpen, restrict, allow, disallow } = taskArguments;
+
+    if (deposit !== undefined || maxOpen !== undefined || restrict !== undefined) {
+      // Unspecified settings keep their current values.
+      const tx = await policy.setPolicy(
+        deposit !== undefined ? ethers.parseEther(deposit as string) : await policy.creationDeposit(),
+        maxOpen !== undefined ? BigInt(maxOpen as string) : await policy.maxOpenPolls(),
+        restrict !== undefined ? restrict === "true" : await policy.creatorAllowlistEnabled(),
+      );
+      console.log(`Set policy tx: ${tx.hash}`);
+      await tx.wait();
+    }
+    for (const [list, allowed] of [
+      [allow, true],
+      [disallow, false],
+    ] as const) {
+      if (list === undefined) continue;
+      const tx = await policy.setCreatorsAllowed(parseAddressList(list as string), allowed);
+      console.log(`${allowed ? "Allow" : "Disallow"} creators tx: ${tx.hash}`);
+      await tx.wait();
+    }
+    console.log("Creator policy updated");
+  });
+
+task("task:withdraw-refund", "Withdraw the creation deposits refunded for your finalized polls").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGridCreatorPolicy");
+    const policy = await ethers.getContractAt("VoteGridCreatorPolicy", deployment.address);
+
+    const [signer] = await ethers.getSigners();
+    const amount = await policy.refunds(signer.address);
+    const tx = await policy.connect(signer).withdrawRefund();
+    console.log(`Withdraw tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Withdrew ${ethers.formatEther(amount)} ETH`);
+  },
+);
+
+task("task:tally-irv", "Run the instant-runoff count of a finalized ranked poll")
+  .addParam("poll", "Poll id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("VoteGrid");
+    const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+    const pollId = parseInt(taskArguments.poll as string, 10);
+
+    const settings = await voteGrid.getPollSettings(pollId);
+    if (BALLOT_TYPES[Number(settings.ballotType)] !== "ranked") {
+      throw new Error(`Poll ${pollId} is not a ranked poll`);
+    }
+    const options = await voteGrid.getOptions(pollId);
+    const encryptedResults = await voteGrid.getEncryptedResults(pollId);
+
+    const [signer] = await ethers.getSigners();
+    const counts: bigint[] = [];
+    for (const handle of encryptedResults) {
+      counts.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, deployment.address, signer));
+    }
+
+    const { winner, rounds } = instantRunoff(options.length, counts);
+    rounds.forEach((round, i) => {
+      const tallies = round.tallies
+        .map((votes, option) => (votes === null ? null : `${options[option]}=${votes}`))
+        .filter(Boolean)
+        .join(", ");
+      const outcome = round.eliminated === null ? "" : ` -> eliminated ${options[round.eliminated]}`;
+      console.log(`Round ${i + 1}: ${tallies}${outcome}`);
+    });
+    console.log(`Winner: ${options[winner]}`);
   });
 
 task("task:list-polls", "List all polls with metadata").setAction(async function (_taskArguments: TaskArguments, hre) {
@@ -106,9 +977,122 @@ task("task:list-polls", "List all polls with metadata").setAction(async function
 
   console.log(`Found ${count} polls`);
   for (let i = 0; i < count; i++) {
-    const [name, start, end, finalized, creator, optionCount] = await voteGrid.getPollMetadata(i);
+    const [name, start, end, finalized, creator, optionCount, cancelled] = await voteGrid.getPollMetadata(i);
+    const settings = await voteGrid.getPollSettings(i);
+    const [participants, quorum, quorumFailed] = await voteGrid.getTurnout(i);
+    const details = await voteGrid.getPollDetails(i);
+    const bounty = ethers.formatEther(await voteGrid.getBounty(i));
+    const turnout =
+      quorum > 0n ? `${participants}/${quorum}${quorumFailed ? " (failed quorum)" : ""}` : `${participants}`;
+    const eligibility = ELIGIBILITY_MODES[Number(settings.eligibility)];
+    const ballot = BALLOT_TYPES[Number(settings.ballotType)];
+    const weighting =
+      settings.weightToken === ethers.ZeroAddress
+        ? "one-per-address"
+        : `${settings.weightToken}@${settings.snapshotBlock.toString()}`;
     console.log(
-      `[${i}] ${name} | options=${optionCount} | start=${start.toString()} | end=${end.toString()} | finalized=${finalized} | creator=${creator}`,
+      `[${i}] ${name} | options=${optionCount} | start=${start.toString()} | end=${end.toString()} | finalized=${finalized} | cancelled=${cancelled} | ballot=${ballot} | eligibility=${eligibility} | weight=${weighting} | revote=${settings.allowRevote} | turnout=${turnout} | reveal=${REVEAL_MODES[Number(settings.reveal)]} | bounty=${bounty} ETH | creator=${creator} | category=${details.category || "-"} | tags=${details.tags.join(",") || "-"}`,
     );
+    if (details.description) {
+      console.log(`    ${details.description}`);
+    }
+    if (details.contentHash) {
+      console.log(`    content: ${details.contentHash}`);
+    }
+    if (ballot === "numeric") {
+      console.log(`    values ${settings.minValue.toString()}-${settings.maxValue.toString()}`);
+    }
+    if (ballot === "survey") {
+      const options = await voteGrid.getOptions(i);
+      const [prompts, optionCounts] = await voteGrid.getSurveyQuestions(i);
+      splitSurvey(options, optionCounts).forEach((questionOptions, q) => {
+        console.log(`    Q${q + 1}. ${prompts[q]} (${questionOptions.join(", ")})`);
+      });
+    }
   }
 });
+
+/** Load the saved event index of this network's deployment, or start one at its deployment block, and sync it. */
+async function syncedIndex(hre: HardhatRuntimeEnvironment, out: string | undefined, batch: string) {
+  const { ethers, deployments } = hre;
+  const deployment = await deployments.get("VoteGrid");
+  const voteGrid = await ethers.getContractAt("VoteGrid", deployment.address);
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const file = out ?? `cache/indexer/${hre.network.name}.json`;
+
+  const store =
+    loadStore(file, chainId, deployment.address) ??
+    createStore(chainId, deployment.address, deployment.receipt?.blockNumber ?? 0);
+  // Saved after every batch, so an interrupted sync resumes where it stopped.
+  const sync = () =>
+    syncIndex(ethers.provider, voteGrid.interface, store, {
+      batchSize: parseInt(batch, 10),
+      onBatch: () => saveStore(file, store),
+    });
+  const applied = await sync();
+  console.log(`Indexed ${applied} new events up to block ${store.lastBlock} into ${file}`);
+  return { store, sync };
+}
+
+task("task:index", "Replay VoteGrid events into a local JSON index and print poll history")
+  .addOptionalParam("out", "Index file (defaults to cache/indexer/<network>.json)")
+  .addOptionalParam("batch", "Blocks per log request", "2000")
+  .addOptionalParam("poll", "Print the turnout over time of this poll")
+  .addOptionalParam("bucket", "Turnout interval in seconds", "3600")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { store } = await syncedIndex(hre, taskArguments.out as string | undefined, taskArguments.batch as string);
+
+    if (taskArguments.poll === undefined) {
+      for (const poll of store.polls) {
+        const state = poll.cancelled
+          ? "cancelled"
+          : poll.quorumFailed
+            ? "failed quorum"
+            : poll.finalized
+              ? `finalized in block ${poll.finalizedBlock}`
+              : "open";
+        console.log(`[${poll.pollId}] ${poll.name} | voters=${participantCount(poll)} | ${state}`);
+      }
+      return;
+    }
+
+    const poll = store.polls[parseInt(taskArguments.poll as string, 10)];
+    if (!poll) {
+      throw new Error(`Poll ${taskArguments.poll as string} is not indexed`);
+    }
+    console.log(`Turnout of poll ${poll.pollId} (${poll.name}):`);
+    for (const point of turnoutOverTime(poll, parseInt(taskArguments.bucket as string, 10))) {
+      console.log(`${new Date(point.timestamp * 1000).toISOString()} ${point.voters}`);
+    }
+  });
+
+task("task:index-serve", "Keep the local event index in sync and serve it over HTTP for the frontend")
+  .addOptionalParam("out", "Index file (defaults to cache/indexer/<network>.json)")
+  .addOptionalParam("batch", "Blocks per log request", "2000")
+  .addOptionalParam("port", "HTTP port", "8787")
+  .addOptionalParam("interval", "Seconds between syncs", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { store, sync } = await syncedIndex(
+      hre,
+      taskArguments.out as string | undefined,
+      taskArguments.batch as string,
+    );
+
+    const port = parseInt(taskArguments.port as string, 10);
+    createIndexServer(() => store).listen(port, () => {
+      console.log(`Serving the index at http://localhost:${port} (Ctrl+C to stop)`);
+    });
+
+    // Runs until the process is stopped; a failed sync is retried at the next interval.
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, parseInt(taskArguments.interval as string, 10) * 1000));
+      try {
+        const applied = await sync();
+        if (applied > 0) {
+          console.log(`Indexed ${applied} new events up to block ${store.lastBlock}`);
+        }
+      } catch (err) {
+        console.error(`Sync failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  });
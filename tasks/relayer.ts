@@ -0,0 +1,40 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { type SignedBallot } from "../src/relayer";
+import { createRelayerServer } from "../src/relayerServer";
+
+task("task:relayer", "Run a local relayer that pays the gas of signed single-choice ballots (castVoteBySig)")
+  .addOptionalParam("port", "HTTP port", "8788")
+  .addOptionalParam("account", "Index of the signer that submits ballots and pays their gas", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = await deployments.get("VoteGrid");
+    const signers = await ethers.getSigners();
+    const relayer = signers[parseInt(taskArguments.account as string, 10)];
+    const voteGrid = (await ethers.getContractAt("VoteGrid", deployment.address)).connect(relayer);
+
+    const submit = async (ballot: SignedBallot) => {
+      const args = [
+        BigInt(ballot.pollId),
+        ballot.voter,
+        ballot.handle,
+        ballot.inputProof,
+        ballot.eligibilityProof,
+        BigInt(ballot.deadline),
+        ballot.signature,
+      ] as const;
+      // Simulated first so a ballot that would revert is refused without spending gas.
+      await voteGrid.castVoteBySig.staticCall(...args);
+      const tx = await voteGrid.castVoteBySig(...args);
+      console.log(`Relayed a ballot from ${ballot.voter} for poll ${ballot.pollId}: ${tx.hash}`);
+      return tx.hash;
+    };
+
+    const port = parseInt(taskArguments.port as string, 10);
+    createRelayerServer(relayer.address, submit).listen(port, () => {
+      console.log(`Relaying ballots as ${relayer.address} at http://localhost:${port} (Ctrl+C to stop)`);
+    });
+    // Keeps the task alive while the server handles requests.
+    await new Promise(() => {});
+  });
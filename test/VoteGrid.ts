@@ -1,33 +1,97 @@
-import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
-import { VoteGrid, VoteGrid__factory } from "../types";
+import { buildMerkleAllowlist } from "../src/allowlist";
+import { describeBallot, splitSurvey } from "../src/ballot";
+import { buildResultsExport, resultsToCsv } from "../src/export";
+import {
+  createIndexServer,
+  createStore,
+  participantCount,
+  type PollSummary,
+  syncIndex,
+  type TurnoutPoint,
+  turnoutOverTime,
+} from "../src/indexer";
+import { instantRunoff, rankingCount, rankingIndex } from "../src/irv";
+import { bucketLabel, numericBuckets, summarizeNumeric } from "../src/numeric";
+import { ballotDomain, signBallot } from "../src/relayer";
+import { createRelayerServer } from "../src/relayerServer";
+import {
+  MockActionTarget,
+  MockSnapshotToken,
+  VoteGrid,
+  VoteGrid__factory,
+  VoteGridCreatorPolicy,
+  VoteGridDelegation,
+  VoteGridExecutor,
+  VoteGridLens,
+} from "../types";
 
 type Signers = {
   deployer: HardhatEthersSigner;
   alice: HardhatEthersSigner;
   bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const MAX_OPTIONS = 16;
+
+const NO_DETAILS = { description: "", category: "", tags: [], contentHash: "" };
+
+const OPEN = {
+  ballotType: 0,
+  eligibility: 0,
+  merkleRoot: ethers.ZeroHash,
+  weightToken: ethers.ZeroAddress,
+  snapshotBlock: 0,
+  allowRevote: false,
+  quorum: 0,
+  reveal: 0,
+  minValue: 0,
+  maxValue: 0,
 };
 
 describe("VoteGrid", function () {
   let signers: Signers;
   let voteGrid: VoteGrid;
   let voteGridAddress: string;
+  let delegation: VoteGridDelegation;
+  let creatorPolicy: VoteGridCreatorPolicy;
+  let ballotLibAddress: string;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
-    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+
+    const ballotLib = await (await ethers.getContractFactory("BallotLib")).deploy();
+    ballotLibAddress = await ballotLib.getAddress();
   });
 
+  async function voteGridFactory() {
+    return (await ethers.getContractFactory("VoteGrid", {
+      libraries: { BallotLib: ballotLibAddress },
+    })) as VoteGrid__factory;
+  }
+
   beforeEach(async function () {
     if (!fhevm.isMock) {
       this.skip();
     }
 
-    const factory = (await ethers.getContractFactory("VoteGrid")) as VoteGrid__factory;
-    voteGrid = (await factory.deploy()) as VoteGrid;
+    delegation = await ethers.deployContract("VoteGridDelegation");
+    // No deposit, no cap and no creator allowlist, so anyone can create polls unless a test changes the policy.
+    creatorPolicy = await ethers.deployContract("VoteGridCreatorPolicy", [0, 0, []]);
+    const factory = await voteGridFactory();
+    voteGrid = (await factory.deploy(
+      MAX_OPTIONS,
+      await delegation.getAddress(),
+      await creatorPolicy.getAddress(),
+    )) as VoteGrid;
     voteGridAddress = await voteGrid.getAddress();
+    await creatorPolicy.setVoteGrid(voteGridAddress);
   });
 
   async function createPollWindow() {
@@ -37,16 +101,16 @@ describe("VoteGrid", function () {
     return { start, end };
   }
 
-  async function encryptChoice(pollId: number, voter: HardhatEthersSigner, choice: number) {
+  async function encryptChoice(pollId: number, voter: HardhatEthersSigner, choice: number, proof: string[] = []) {
     const encryptedInput = await fhevm.createEncryptedInput(voteGridAddress, voter.address).add32(choice).encrypt();
-    return voteGrid.connect(voter).castVote(pollId, encryptedInput.handles[0], encryptedInput.inputProof);
+    return voteGrid.connect(voter).castVote(pollId, encryptedInput.handles[0], encryptedInput.inputProof, proof);
   }
 
   it("creates a poll and tallies encrypted votes", async function () {
     const { start, end } = await createPollWindow();
     const options = ["Option A", "Option B", "Option C"];
 
-    const tx = await voteGrid.createPoll("Launch Plan", options, BigInt(start), BigInt(end));
+    const tx = await voteGrid.createPoll("Launch Plan", options, BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
     await tx.wait();
 
     const [name, startTime, endTime, finalized, creator, optionCount] = await voteGrid.getPollMetadata(0);
@@ -81,10 +145,1589 @@ describe("VoteGrid", function () {
   it("prevents double voting from the same address", async function () {
     const { start, end } = await createPollWindow();
     const options = ["Yes", "No"];
-    await voteGrid.createPoll("Double Vote Check", options, BigInt(start), BigInt(end));
+    await voteGrid.createPoll("Double Vote Check", options, BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
 
     await time.increaseTo(start + 2);
     await encryptChoice(0, signers.alice, 0);
     await expect(encryptChoice(0, signers.alice, 1)).to.be.revertedWith("Address already voted");
   });
+
+  it("only accepts ballots from an explicit allowlist", async function () {
+    const { start, end } = await createPollWindow();
+    await voteGrid.createPoll(
+      "Board",
+      ["Yes", "No"],
+      BigInt(start),
+      BigInt(end),
+      { ...OPEN, eligibility: 1 },
+      NO_DETAILS,
+      [signers.alice.address],
+    );
+    await voteGrid.addToAllowlist(0, [signers.bob.address]);
+    await expect(voteGrid.connect(signers.alice).addToAllowlist(0, [signers.carol.address])).to.be.revertedWith(
+      "Only creator",
+    );
+
+    expect(await voteGrid.isEligible(0, signers.bob.address, [])).to.eq(true);
+    expect(await voteGrid.isEligible(0, signers.carol.address, [])).to.eq(false);
+
+    await time.increaseTo(start + 2);
+    await expect(voteGrid.addToAllowlist(0, [signers.carol.address])).to.be.revertedWith("Poll already started");
+    await encryptChoice(0, signers.alice, 0);
+    await encryptChoice(0, signers.bob, 1);
+    await expect(encryptChoice(0, signers.carol, 1)).to.be.revertedWith("Address not eligible");
+  });
+
+  it("verifies Merkle proofs for Merkle-root polls", async function () {
+    const { start, end } = await createPollWindow();
+    const { root, proofs } = buildMerkleAllowlist([
+      signers.alice.address,
+      signers.bob.address,
+      signers.deployer.address,
+    ]);
+    await voteGrid.createPoll(
+      "Members",
+      ["Yes", "No"],
+      BigInt(start),
+      BigInt(end),
+      { ...OPEN, eligibility: 2, merkleRoot: root },
+      NO_DETAILS,
+      [],
+    );
+
+    expect(await voteGrid.isEligible(0, signers.alice.address, proofs[signers.alice.address])).to.eq(true);
+    expect(await voteGrid.isEligible(0, signers.carol.address, proofs[signers.alice.address])).to.eq(false);
+
+    await time.increaseTo(start + 2);
+    await encryptChoice(0, signers.alice, 0, proofs[signers.alice.address]);
+    await expect(encryptChoice(0, signers.bob, 0, proofs[signers.alice.address])).to.be.revertedWith(
+      "Address not eligible",
+    );
+    await encryptChoice(0, signers.bob, 0, proofs[signers.bob.address]);
+    await expect(encryptChoice(0, signers.carol, 1, [])).to.be.revertedWith("Address not eligible");
+  });
+
+  it("rejects inconsistent eligibility settings", async function () {
+    const { start, end } = await createPollWindow();
+    await expect(
+      voteGrid.createPoll(
+        "No root",
+        ["Yes", "No"],
+        BigInt(start),
+        BigInt(end),
+        { ...OPEN, eligibility: 2 },
+        NO_DETAILS,
+        [],
+      ),
+    ).to.be.revertedWith("Merkle root required");
+    await expect(
+      voteGrid.createPoll("Stray list", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, [
+        signers.alice.address,
+      ]),
+    ).to.be.revertedWith("Allowlist only for Allowlist polls");
+  });
+
+  it("enforces the maximum option count chosen at deployment", async function () {
+    const factory = await voteGridFactory();
+    await expect(
+      factory.deploy(33, await delegation.getAddress(), await creatorPolicy.getAddress()),
+    ).to.be.revertedWith("Invalid max options");
+
+    const { start, end } = await createPollWindow();
+    const options = (count: number) => Array.from({ length: count }, (_, i) => `Option ${i}`);
+    await voteGrid.createPoll("Wide", options(MAX_OPTIONS), BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+    await expect(
+      voteGrid.createPoll("Too wide", options(MAX_OPTIONS + 1), BigInt(start), BigInt(end), OPEN, NO_DETAILS, []),
+    ).to.be.revertedWith("Options must be between 2 and maxOptions");
+    await expect(
+      voteGrid.createPoll("Ranked", options(5), BigInt(start), BigInt(end), { ...OPEN, ballotType: 3 }, NO_DETAILS, []),
+    ).to.be.revertedWith("Ranked polls support up to 4 options");
+  });
+
+  // Run with `npm run test:gas` to print the gas of each step, which the README table lists.
+  describe("gas benchmarks", function () {
+    for (const optionCount of [4, 8, 16]) {
+      it(`creates and votes in a ${optionCount}-option poll`, async function () {
+        const { start, end } = await createPollWindow();
+        const options = Array.from({ length: optionCount }, (_, i) => `Option ${i}`);
+        const create = await (
+          await voteGrid.createPoll("Benchmark", options, BigInt(start), BigInt(end), OPEN, NO_DETAILS, [])
+        ).wait();
+
+        await time.increaseTo(start + 2);
+        const vote = await (await encryptChoice(0, signers.alice, optionCount - 1)).wait();
+
+        await time.increaseTo(end + 1);
+        const finalize = await (await voteGrid.finalizePoll(0)).wait();
+        expect((await voteGrid.getEncryptedResults(0)).length).to.eq(optionCount);
+        if (process.env.REPORT_GAS) {
+          console.log(
+            `      createPoll: ${create!.gasUsed} gas | castVote: ${vote!.gasUsed} gas | finalizePoll: ${finalize!.gasUsed} gas`,
+          );
+        }
+      });
+    }
+  });
+
+  describe("re-votable polls", function () {
+    const REVOTE = { ...OPEN, allowRevote: true };
+
+    it("replaces a voter's ballot until the poll ends", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll(
+        "Lunch",
+        ["Pizza", "Sushi", "Tacos"],
+        BigInt(start),
+        BigInt(end),
+        REVOTE,
+        NO_DETAILS,
+        [],
+      );
+
+      await time.increaseTo(start + 2);
+      await expect(encryptChoice(0, signers.alice, 0)).to.emit(voteGrid, "VoteCast");
+      await encryptChoice(0, signers.bob, 0);
+      await expect(encryptChoice(0, signers.alice, 2))
+        .to.emit(voteGrid, "VoteChanged")
+        .withArgs(0, signers.alice.address);
+      await encryptChoice(0, signers.alice, 1);
+      expect(await voteGrid.hasAddressVoted(0, signers.alice.address)).to.eq(true);
+
+      await time.increaseTo(end + 1);
+      await expect(encryptChoice(0, signers.alice, 0)).to.be.revertedWith("Poll already ended");
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([1n, 1n, 0n]);
+    });
+
+    it("replaces approval ballots by subtracting the previous selection", async function () {
+      const { start, end } = await createPollWindow();
+      const settings = { ...REVOTE, ballotType: 2 };
+      await voteGrid.createPoll("Venues", ["Berlin", "Lisbon"], BigInt(start), BigInt(end), settings, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      for (const selections of [
+        [true, true],
+        [false, true],
+      ]) {
+        const input = fhevm.createEncryptedInput(voteGridAddress, signers.alice.address);
+        selections.forEach((selected) => input.addBool(selected));
+        const encrypted = await input.encrypt();
+        await voteGrid.connect(signers.alice).castApprovalVote(0, encrypted.handles, encrypted.inputProof, []);
+      }
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([0n, 1n]);
+    });
+  });
+
+  describe("creator controls", function () {
+    it("cancels a poll so it takes no ballots and is never finalized", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Offsite", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      await encryptChoice(0, signers.alice, 0);
+      await expect(voteGrid.connect(signers.alice).cancelPoll(0)).to.be.revertedWith("Only creator");
+      await expect(voteGrid.cancelPoll(0)).to.emit(voteGrid, "PollCancelled").withArgs(0);
+
+      const metadata = await voteGrid.getPollMetadata(0);
+      expect(metadata.cancelled).to.eq(true);
+      await expect(encryptChoice(0, signers.bob, 1)).to.be.revertedWith("Poll cancelled");
+      await expect(voteGrid.extendEndTime(0, end + 60)).to.be.revertedWith("Poll cancelled");
+
+      await time.increaseTo(end + 1);
+      await expect(voteGrid.finalizePoll(0)).to.be.revertedWith("Poll cancelled");
+    });
+
+    it("extends the end time only forward and only before the poll ends", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Offsite", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+
+      await expect(voteGrid.extendEndTime(0, end)).to.be.revertedWith("End time can only be extended");
+      await expect(voteGrid.extendEndTime(0, end + 600))
+        .to.emit(voteGrid, "PollEndTimeExtended")
+        .withArgs(0, end + 600);
+      expect((await voteGrid.getPollMetadata(0)).endTime).to.eq(BigInt(end + 600));
+
+      await time.increaseTo(end + 1);
+      await encryptChoice(0, signers.alice, 1);
+      await time.increaseTo(end + 601);
+      await expect(voteGrid.extendEndTime(0, end + 1200)).to.be.revertedWith("Poll already ended");
+      await expect(voteGrid.cancelPoll(0)).to.be.revertedWith("Poll already ended");
+    });
+
+    it("edits the name and option labels until the poll opens", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Ofsite", ["Lisbn", "Berlin"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+
+      await expect(voteGrid.editMetadata(0, "Offsite", ["Lisbon"])).to.be.revertedWith("Option count cannot change");
+      await expect(voteGrid.editMetadata(0, "Offsite", ["Lisbon", "Berlin"]))
+        .to.emit(voteGrid, "PollMetadataEdited")
+        .withArgs(0, "Offsite");
+      expect((await voteGrid.getPollMetadata(0)).name).to.eq("Offsite");
+      expect(await voteGrid.getOptions(0)).to.deep.eq(["Lisbon", "Berlin"]);
+
+      await time.increaseTo(start + 2);
+      await expect(voteGrid.editMetadata(0, "Offsite 2", ["Lisbon", "Berlin"])).to.be.revertedWith(
+        "Poll already started",
+      );
+    });
+  });
+
+  describe("quorum", function () {
+    it("reveals tallies once enough distinct voters took part", async function () {
+      const { start, end } = await createPollWindow();
+      const settings = { ...OPEN, allowRevote: true, quorum: 2 };
+      await voteGrid.createPoll("Quorum", ["Yes", "No"], BigInt(start), BigInt(end), settings, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      await encryptChoice(0, signers.alice, 0);
+      await encryptChoice(0, signers.alice, 1);
+      expect(await voteGrid.getTurnout(0)).to.deep.eq([1n, 2n, false]);
+      await encryptChoice(0, signers.bob, 1);
+
+      await time.increaseTo(end + 1);
+      await expect(voteGrid.finalizePoll(0)).to.emit(voteGrid, "PollFinalized").withArgs(0);
+      expect(await voteGrid.getTurnout(0)).to.deep.eq([2n, 2n, false]);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([0n, 2n]);
+    });
+
+    it("keeps tallies encrypted when the quorum is not met", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll(
+        "Quorum",
+        ["Yes", "No"],
+        BigInt(start),
+        BigInt(end),
+        { ...OPEN, quorum: 3 },
+        NO_DETAILS,
+        [],
+      );
+
+      await time.increaseTo(start + 2);
+      await encryptChoice(0, signers.alice, 0);
+      await encryptChoice(0, signers.bob, 1);
+
+      await time.increaseTo(end + 1);
+      await expect(voteGrid.finalizePoll(0)).to.emit(voteGrid, "PollQuorumFailed").withArgs(0, 2, 3);
+      expect((await voteGrid.getPollMetadata(0)).finalized).to.eq(true);
+      expect(await voteGrid.getTurnout(0)).to.deep.eq([2n, 3n, true]);
+      await expect(voteGrid.getEncryptedResults(0)).to.be.revertedWith("Quorum not met");
+      await expect(voteGrid.finalizePoll(0)).to.be.revertedWith("Poll already finalized");
+    });
+  });
+
+  describe("published results", function () {
+    async function finalizedPoll() {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Publish", ["Yes", "No", "Abstain"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await time.increaseTo(start + 2);
+      await encryptChoice(0, signers.alice, 1);
+      await encryptChoice(0, signers.bob, 1);
+      await encryptChoice(0, signers.carol, 2);
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      return fhevm.publicDecrypt(handles);
+    }
+
+    it("stores tallies verified against the KMS decryption proof", async function () {
+      const { decryptionProof } = await finalizedPoll();
+      await expect(voteGrid.getClearResults(0)).to.be.revertedWith("Results not published");
+
+      await expect(voteGrid.connect(signers.carol).publishResults(0, [0, 2, 1], decryptionProof))
+        .to.emit(voteGrid, "ResultsPublished")
+        .withArgs(0, [0, 2, 1]);
+      expect(await voteGrid.getClearResults(0)).to.deep.eq([0n, 2n, 1n]);
+      await expect(voteGrid.publishResults(0, [0, 2, 1], decryptionProof)).to.be.revertedWith(
+        "Results already published",
+      );
+    });
+
+    it("rejects values that do not match the proof", async function () {
+      const { decryptionProof } = await finalizedPoll();
+      // The KMS verifier rejects signatures that do not cover these cleartexts.
+      await expect(voteGrid.publishResults(0, [0, 3, 0], decryptionProof)).to.be.reverted;
+      await expect(voteGrid.publishResults(0, [0, 2], decryptionProof)).to.be.revertedWith("One count per counter");
+    });
+  });
+
+  describe("poll queries", function () {
+    // `VoteGridLens.PollStatus` bits.
+    const SCHEDULED = 1 << 0;
+    const ACTIVE = 1 << 1;
+    const CANCELLED = 1 << 4;
+    const ANY = {
+      statuses: 0,
+      creator: ethers.ZeroAddress,
+      voter: ethers.ZeroAddress,
+      votedOnly: false,
+      category: "",
+      tag: "",
+    };
+
+    let lens: VoteGridLens;
+
+    beforeEach(async function () {
+      lens = await (await ethers.getContractFactory("VoteGridLens")).deploy(voteGridAddress);
+    });
+
+    it("pages through polls newest first", async function () {
+      const { start, end } = await createPollWindow();
+      for (let i = 0; i < 5; i++) {
+        await voteGrid.createPoll(`Poll ${i}`, ["Yes", "No"], BigInt(start + 60), BigInt(end), OPEN, NO_DETAILS, []);
+      }
+
+      const [firstPage, matchCount] = await lens.getPolls(ANY, 0, 2);
+      expect(matchCount).to.eq(5n);
+      expect(firstPage.map((poll) => poll.name)).to.deep.eq(["Poll 4", "Poll 3"]);
+      const [lastPage] = await lens.getPolls(ANY, 4, 2);
+      expect(lastPage.map((poll) => poll.pollId)).to.deep.eq([0n]);
+      // Huge limits are bounded by the polls left and `MAX_PAGE` instead of sizing the page.
+      const [everything] = await lens.getPolls(ANY, 0, ethers.MaxUint256);
+      expect(everything.length).to.eq(5);
+      expect((await lens.getPolls(ANY, 9, ethers.MaxUint256))[0]).to.deep.eq([]);
+      expect((await lens.getSummaries([1, 3], ethers.ZeroAddress)).map((poll) => poll.name)).to.deep.eq([
+        "Poll 1",
+        "Poll 3",
+      ]);
+    });
+
+    it("filters by status, creator and the polls an address voted in", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Open", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await voteGrid
+        .connect(signers.alice)
+        .createPoll("Alice's", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await voteGrid.createPoll("Later", ["Yes", "No"], BigInt(end), BigInt(end + 3600), OPEN, NO_DETAILS, []);
+      await voteGrid.createPoll("Dropped", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await voteGrid.cancelPoll(3);
+
+      await time.increaseTo(start + 2);
+      await encryptChoice(1, signers.bob, 0);
+
+      const names = async (filter: typeof ANY) => (await lens.getPolls(filter, 0, 10))[0].map((poll) => poll.name);
+      expect(await names({ ...ANY, statuses: ACTIVE })).to.deep.eq(["Alice's", "Open"]);
+      expect(await names({ ...ANY, statuses: SCHEDULED | CANCELLED })).to.deep.eq(["Dropped", "Later"]);
+      expect(await names({ ...ANY, creator: signers.alice.address })).to.deep.eq(["Alice's"]);
+      expect(await names({ ...ANY, voter: signers.bob.address, votedOnly: true })).to.deep.eq(["Alice's"]);
+
+      const [[voted]] = await lens.getPolls({ ...ANY, voter: signers.bob.address, votedOnly: true }, 0, 10);
+      expect(voted.hasVoted).to.eq(true);
+      expect(voted.participantCount).to.eq(1n);
+    });
+
+    it("stores poll details and filters by category and tag", async function () {
+      const { start, end } = await createPollWindow();
+      const details = {
+        description: "Move the offsite to Lisbon?",
+        category: "Events",
+        tags: ["offsite", "budget"],
+        contentHash: "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+      };
+      await voteGrid.createPoll("Offsite", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, details, []);
+      await voteGrid.createPoll(
+        "Hiring",
+        ["Yes", "No"],
+        BigInt(start),
+        BigInt(end),
+        OPEN,
+        { ...NO_DETAILS, category: "Team", tags: ["budget"] },
+        [],
+      );
+      await voteGrid.createPoll("Untagged", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await expect(
+        voteGrid.createPoll(
+          "Tag soup",
+          ["Yes", "No"],
+          BigInt(start),
+          BigInt(end),
+          OPEN,
+          { ...NO_DETAILS, tags: Array.from({ length: 9 }, (_, i) => `tag ${i}`) },
+          [],
+        ),
+      ).to.be.revertedWith("Too many tags");
+
+      const stored = await voteGrid.getPollDetails(0);
+      expect([stored.description, stored.category, [...stored.tags], stored.contentHash]).to.deep.eq(
+        Object.values(details),
+      );
+
+      const names = async (filter: typeof ANY) => (await lens.getPolls(filter, 0, 10))[0].map((poll) => poll.name);
+      expect(await names({ ...ANY, category: "Events" })).to.deep.eq(["Offsite"]);
+      expect(await names({ ...ANY, tag: "budget" })).to.deep.eq(["Hiring", "Offsite"]);
+      expect(await names({ ...ANY, category: "Team", tag: "offsite" })).to.deep.eq([]);
+      const [[hiring]] = await lens.getPolls({ ...ANY, category: "Team" }, 0, 10);
+      expect([hiring.category, [...hiring.tags]]).to.deep.eq(["Team", ["budget"]]);
+    });
+  });
+
+  describe("event indexer", function () {
+    it("rebuilds poll history and turnout over time from events", async function () {
+      const { start, end } = await createPollWindow();
+      const settings = { ...OPEN, allowRevote: true };
+      const labels = { ...NO_DETAILS, category: "Finance", tags: ["q3", "budget"] };
+      await voteGrid
+        .connect(signers.alice)
+        .createPoll("Draft", ["Yes", "No"], BigInt(start), BigInt(end), settings, labels, []);
+      await voteGrid.connect(signers.alice).editMetadata(0, "Budget", ["Yes", "No"]);
+
+      await time.increaseTo(start + 100);
+      await encryptChoice(0, signers.bob, 0);
+      await encryptChoice(0, signers.bob, 1);
+      await time.increaseTo(start + 2000);
+      await encryptChoice(0, signers.carol, 1);
+      await time.increaseTo(end + 1);
+      const finalizeTx = await voteGrid.finalizePoll(0);
+
+      const chainId = Number((await ethers.provider.getNetwork()).chainId);
+      const store = createStore(chainId, voteGridAddress, 0);
+      // A small batch size exercises resuming across log requests.
+      await syncIndex(ethers.provider, voteGrid.interface, store, { batchSize: 3 });
+
+      const [poll] = store.polls;
+      expect(poll.name).to.eq("Budget");
+      expect(poll.creator).to.eq(signers.alice.address);
+      expect([poll.category, poll.tags]).to.deep.eq(["Finance", ["q3", "budget"]]);
+      expect(poll.votes.map((vote) => vote.changed)).to.deep.eq([false, true, false]);
+      expect(participantCount(poll)).to.eq(2);
+      expect(poll.finalizedTx).to.eq(finalizeTx.hash);
+      expect(turnoutOverTime(poll, 1800).map((point) => point.voters)).to.deep.eq([1, 2]);
+
+      const server = createIndexServer(() => store).listen(0);
+      try {
+        await new Promise((resolve) => server.once("listening", resolve));
+        const { port } = server.address() as { port: number };
+        const polls = (await (
+          await fetch(`http://localhost:${port}/polls?voter=${signers.bob.address}`)
+        ).json()) as PollSummary[];
+        expect(polls[0].participantCount).to.eq(2);
+        expect(polls[0].hasVoted).to.eq(true);
+        expect((await fetch(`http://localhost:${port}/polls/7`)).status).to.eq(404);
+        // An hour-long poll allows buckets of 4 seconds or more, i.e. at most 1,000 points.
+        expect((await fetch(`http://localhost:${port}/polls/0/turnout?bucket=3`)).status).to.eq(400);
+        const turnout = (await (
+          await fetch(`http://localhost:${port}/polls/0/turnout?bucket=4`)
+        ).json()) as TurnoutPoint[];
+        expect(turnout.length).to.eq(900);
+      } finally {
+        server.close();
+      }
+    });
+
+    it("retries a batch that failed partway without applying its events twice", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Retry", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await time.increaseTo(start + 1);
+      await encryptChoice(0, signers.alice, 0);
+      await encryptChoice(0, signers.bob, 1);
+
+      // The second block lookup fails, after the first vote of the batch was already applied.
+      let blockLookups = 0;
+      const flaky = new Proxy(ethers.provider, {
+        get(target, property) {
+          if (property === "getBlock") {
+            return (block: number) => {
+              if (++blockLookups === 2) throw new Error("RPC timeout");
+              return target.getBlock(block);
+            };
+          }
+          const value = Reflect.get(target, property, target);
+          return typeof value === "function" ? value.bind(target) : value;
+        },
+      });
+
+      const chainId = Number((await ethers.provider.getNetwork()).chainId);
+      const store = createStore(chainId, voteGridAddress, 0);
+      const saved: number[] = [];
+      const options = { onBatch: (synced: typeof store) => saved.push(synced.lastBlock) };
+      const failure = await syncIndex(flaky, voteGrid.interface, store, options).catch((err: Error) => err.message);
+      expect(failure).to.eq("RPC timeout");
+      expect([store.lastBlock, store.polls.length, saved.length]).to.deep.eq([-1, 0, 0]);
+
+      await syncIndex(flaky, voteGrid.interface, store, options);
+      expect(participantCount(store.polls[0])).to.eq(2);
+      expect(saved).to.deep.eq([store.lastBlock]);
+    });
+
+    it("saves the store only after batches that changed it, and once at the end", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Quiet", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      const created = await ethers.provider.getBlockNumber();
+      await mine(10);
+
+      const chainId = Number((await ethers.provider.getNetwork()).chainId);
+      const store = createStore(chainId, voteGridAddress, created);
+      const saved: number[] = [];
+      await syncIndex(ethers.provider, voteGrid.interface, store, {
+        batchSize: 2,
+        onBatch: (synced) => saved.push(synced.lastBlock),
+      });
+      expect(saved).to.deep.eq([created + 1, created + 10]);
+    });
+
+    it("refuses to sync a store that starts after a poll was created", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Early", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      const afterCreation = await ethers.provider.getBlockNumber();
+      await time.increaseTo(start + 1);
+      await encryptChoice(0, signers.alice, 0);
+
+      const chainId = Number((await ethers.provider.getNetwork()).chainId);
+      const store = createStore(chainId, voteGridAddress, afterCreation + 1);
+      const failure = await syncIndex(ethers.provider, voteGrid.interface, store).catch((err: Error) => err.message);
+      expect(failure).to.eq("The index store starts after poll 0 was created; create it from an earlier block");
+      expect([store.lastBlock, store.polls.length]).to.deep.eq([afterCreation, 0]);
+    });
+  });
+
+  describe("signed ballots", function () {
+    // The deployer relays ballots, so inputs are encrypted with its address as the user.
+    async function signedChoice(pollId: number, voter: HardhatEthersSigner, choice: number, deadline: number) {
+      const input = await fhevm.createEncryptedInput(voteGridAddress, signers.deployer.address).add32(choice).encrypt();
+      const handle = ethers.hexlify(input.handles[0]);
+      const inputProof = ethers.hexlify(input.inputProof);
+      const domain = ballotDomain((await ethers.provider.getNetwork()).chainId, voteGridAddress);
+      const nonce = await voteGrid.nonces(voter.address);
+      const signature = await signBallot(voter, domain, { pollId, handle, inputProof, nonce, deadline });
+      return {
+        pollId: pollId.toString(),
+        voter: voter.address,
+        handle,
+        inputProof,
+        deadline: deadline.toString(),
+        signature,
+      };
+    }
+
+    it("counts a ballot relayed over HTTP for the voter who signed it", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Gasless", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await time.increaseTo(start + 1);
+
+      const server = createRelayerServer(signers.deployer.address, async (ballot) => {
+        const tx = await voteGrid.castVoteBySig(
+          ballot.pollId,
+          ballot.voter,
+          ballot.handle,
+          ballot.inputProof,
+          ballot.eligibilityProof,
+          ballot.deadline,
+          ballot.signature,
+        );
+        return tx.hash;
+      }).listen(0);
+      try {
+        await new Promise((resolve) => server.once("listening", resolve));
+        const { port } = server.address() as { port: number };
+        const ballot = await signedChoice(0, signers.alice, 1, end);
+        const response = await fetch(`http://localhost:${port}/ballots`, {
+          method: "POST",
+          body: JSON.stringify({ ...ballot, eligibilityProof: [] }),
+        });
+        expect(response.status).to.eq(200);
+      } finally {
+        server.close();
+      }
+
+      expect(await voteGrid.hasAddressVoted(0, signers.alice.address)).to.eq(true);
+      expect(await voteGrid.hasAddressVoted(0, signers.deployer.address)).to.eq(false);
+      expect(await voteGrid.nonces(signers.alice.address)).to.eq(1);
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as string);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((handle) => clearValues[handle])).to.deep.eq([0n, 1n]);
+    });
+
+    it("rejects replayed, expired and forged signatures", async function () {
+      const start = (await time.latest()) + 60;
+      const end = start + 3600;
+      await voteGrid.createPoll(
+        "Gasless",
+        ["Yes", "No"],
+        BigInt(start),
+        BigInt(end),
+        { ...OPEN, allowRevote: true },
+        NO_DETAILS,
+        [],
+      );
+      await time.increaseTo(start + 1);
+
+      const castBySig = (ballot: Awaited<ReturnType<typeof signedChoice>>) =>
+        voteGrid.castVoteBySig(
+          ballot.pollId,
+          ballot.voter,
+          ballot.handle,
+          ballot.inputProof,
+          [],
+          ballot.deadline,
+          ballot.signature,
+        );
+
+      const ballot = await signedChoice(0, signers.alice, 0, end);
+      await castBySig(ballot);
+      await expect(castBySig(ballot)).to.be.revertedWith("Invalid signature");
+
+      const expired = await signedChoice(0, signers.alice, 1, (await time.latest()) - 1);
+      await expect(castBySig(expired)).to.be.revertedWith("Signature expired");
+
+      const forged = { ...(await signedChoice(0, signers.bob, 1, end)), voter: signers.alice.address };
+      await expect(castBySig(forged)).to.be.revertedWith("Invalid signature");
+
+      // The relayer cannot swap in another encrypted choice under the voter's signature.
+      const other = await signedChoice(0, signers.alice, 1, end);
+      await expect(castBySig({ ...ballot, signature: other.signature })).to.be.revertedWith("Invalid signature");
+    });
+
+    it("rejects ballots for the zero address and signatures that recover no signer", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Gasless", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await time.increaseTo(start + 1);
+
+      const ballot = await signedChoice(0, signers.alice, 1, end);
+      const castBySig = (voter: string, signature: string) =>
+        voteGrid.castVoteBySig(0, voter, ballot.handle, ballot.inputProof, [], ballot.deadline, signature);
+
+      // A malformed signature used to recover the zero address, which then matched a zero-address voter.
+      await expect(castBySig(ethers.ZeroAddress, "0x")).to.be.revertedWith("Invalid voter");
+      await expect(castBySig(signers.alice.address, "0x")).to.be.revertedWith("Invalid signature");
+      // `v` of 0 makes `ecrecover` fail and return the zero address.
+      await expect(castBySig(signers.alice.address, ethers.hexlify(new Uint8Array(65)))).to.be.revertedWith(
+        "Invalid signature",
+      );
+      expect((await voteGrid.getTurnout(0))[0]).to.eq(0);
+    });
+  });
+
+  describe("batch votes", function () {
+    it("casts one vote per poll from a single encrypted input", async function () {
+      const start = (await time.latest()) + 60;
+      const end = start + 3600;
+      const { root } = buildMerkleAllowlist([signers.alice.address, signers.bob.address]);
+      await voteGrid.createPoll("Minutes", ["Approve", "Reject"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await voteGrid.createPoll("Budget", ["A", "B", "C"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await voteGrid.createPoll(
+        "Board",
+        ["Yes", "No"],
+        BigInt(start),
+        BigInt(end),
+        { ...OPEN, eligibility: 2, merkleRoot: root },
+        NO_DETAILS,
+        [],
+      );
+      await time.increaseTo(start + 1);
+
+      const input = await fhevm
+        .createEncryptedInput(voteGridAddress, signers.alice.address)
+        .add32(0)
+        .add32(2)
+        .add32(1)
+        .encrypt();
+      await expect(
+        voteGrid.connect(signers.alice).castVotes([0, 1], [input.handles[0]], input.inputProof),
+      ).to.be.revertedWith("One choice per poll");
+      // Merkle polls need a proof, so including one rejects the whole batch.
+      await expect(
+        voteGrid.connect(signers.alice).castVotes([0, 1, 2], input.handles, input.inputProof),
+      ).to.be.revertedWith("Address not eligible");
+      await voteGrid.connect(signers.alice).castVotes([0, 1], input.handles.slice(0, 2), input.inputProof);
+
+      expect(await voteGrid.hasAddressVoted(0, signers.alice.address)).to.eq(true);
+      expect(await voteGrid.hasAddressVoted(2, signers.alice.address)).to.eq(false);
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizeExpired([0, 1]);
+      for (const [pollId, expected] of [
+        [0, [1n, 0n]],
+        [1, [0n, 0n, 1n]],
+      ] as const) {
+        const handles = (await voteGrid.getEncryptedResults(pollId)).map((h) => h as string);
+        const { clearValues } = await fhevm.publicDecrypt(handles);
+        expect(handles.map((handle) => clearValues[handle])).to.deep.eq(expected);
+      }
+    });
+  });
+
+  describe("delegated votes", function () {
+    it("counts a delegate's ballot once per delegator until they vote directly", async function () {
+      await delegation.connect(signers.alice).delegate(signers.carol.address);
+      await delegation.connect(signers.bob).delegate(signers.carol.address);
+      const start = (await time.latest()) + 60;
+      const end = start + 3600;
+      await voteGrid.createPoll("Roadmap", ["Ship", "Wait"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await time.increaseTo(start + 1);
+
+      expect(await voteGrid.getBallotWeight(0, signers.carol.address)).to.eq(3);
+      await encryptChoice(0, signers.carol, 1);
+      // Bob's direct vote takes his share back out of Carol's ballot.
+      await encryptChoice(0, signers.bob, 0);
+      expect(await voteGrid.getBallotWeight(0, signers.carol.address)).to.eq(2);
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as string);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((handle) => clearValues[handle])).to.deep.eq([1n, 2n]);
+      expect((await voteGrid.getTurnout(0)).participantCount).to.eq(2);
+    });
+
+    it("prefers a per-poll delegate over the global one", async function () {
+      const { alice, bob, carol } = signers;
+      await expect(delegation.connect(alice).delegate(alice.address)).to.be.revertedWith("Invalid delegate");
+      await expect(delegation.connect(alice).undelegate()).to.be.revertedWith("Not delegated");
+
+      await delegation.connect(alice).delegate(carol.address);
+      await delegation.connect(alice).delegateForPoll(0, bob.address);
+      expect(await delegation.delegateOf(0, alice.address)).to.eq(bob.address);
+      expect(await delegation.delegateOf(1, alice.address)).to.eq(carol.address);
+      expect(await delegation.delegatorsOf(0, carol.address)).to.deep.eq([]);
+      expect(await delegation.delegatorsOf(1, carol.address)).to.deep.eq([alice.address]);
+
+      await delegation.connect(alice).undelegateForPoll(0);
+      expect(await delegation.delegatorsOf(0, carol.address)).to.deep.eq([alice.address]);
+      await delegation.connect(alice).undelegate();
+      expect(await delegation.delegateOf(0, alice.address)).to.eq(ethers.ZeroAddress);
+    });
+
+    it("lets a delegate whose list is full of throwaway addresses require approval and remove them", async function () {
+      const { alice, bob, carol } = signers;
+      const spammers = [];
+      for (let i = 0; i < 64; i++) {
+        const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+        await ethers.provider.send("hardhat_setBalance", [wallet.address, "0xde0b6b3a7640000"]);
+        await delegation.connect(wallet).delegate(carol.address);
+        await delegation.connect(wallet).delegateForPoll(0, carol.address);
+        spammers.push(wallet.address);
+      }
+      await expect(delegation.connect(bob).delegate(carol.address)).to.be.revertedWith("Too many delegators");
+      await expect(delegation.connect(bob).delegateForPoll(0, carol.address)).to.be.revertedWith("Too many delegators");
+
+      await delegation.connect(carol).setApprovalRequired(true);
+      await delegation.connect(carol).setDelegatorsApproved(spammers, false);
+      await delegation.connect(carol).removePollDelegators(0, spammers);
+      expect(await delegation.delegatorsOf(0, carol.address)).to.deep.eq([]);
+      expect(await delegation.delegatorsOf(1, carol.address)).to.deep.eq([]);
+      expect(await delegation.delegateOf(1, spammers[0])).to.eq(ethers.ZeroAddress);
+
+      await expect(delegation.connect(alice).delegate(carol.address)).to.be.revertedWith("Delegation not approved");
+      await delegation.connect(carol).setDelegatorsApproved([bob.address], true);
+      await delegation.connect(bob).delegate(carol.address);
+      await delegation.connect(bob).delegateForPoll(0, carol.address);
+      expect(await delegation.delegatorsOf(1, carol.address)).to.deep.eq([bob.address]);
+      expect(await delegation.delegatorsOf(0, carol.address)).to.deep.eq([bob.address]);
+    });
+  });
+
+  describe("results export", function () {
+    it("archives counts, handles and the finalize transaction as JSON and CSV", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Budget", ["Yes", "No, later"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await time.increaseTo(start + 1);
+      await encryptChoice(0, signers.bob, 1);
+      await encryptChoice(0, signers.carol, 1);
+      await time.increaseTo(end + 1);
+      const finalizeReceipt = await (await voteGrid.finalizePoll(0)).wait();
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as string);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      const source = {
+        chainId: 31337,
+        contract: voteGridAddress,
+        pollId: 0,
+        name: "Budget",
+        creator: signers.deployer.address,
+        startTime: start,
+        endTime: end,
+        options: await voteGrid.getOptions(0),
+        ballotType: 0,
+        reveal: 0,
+        participantCount: 2,
+        quorum: 0,
+        quorumFailed: false,
+        handles,
+        counts: handles.map((handle) => clearValues[handle] as bigint),
+        revealedWinner: null,
+        published: false,
+        finalizeTx: finalizeReceipt!.hash,
+        finalizeBlock: finalizeReceipt!.blockNumber,
+      };
+      const exported = buildResultsExport(source);
+
+      expect(exported.counters.map((counter) => counter.count)).to.deep.eq(["0", "2"]);
+      expect(exported.winner).to.deep.eq({ option: 1, label: "No, later" });
+
+      const [header, , noRow] = resultsToCsv([exported]).trim().split("\n");
+      expect(header.split(",").slice(-4)).to.deep.eq(["counter", "label", "count", "handle"]);
+      expect(noRow).to.contain(`${finalizeReceipt!.hash},${finalizeReceipt!.blockNumber},false,"No, later",false`);
+      expect(noRow.endsWith(`1,"No, later",2,${handles[1]}`)).to.eq(true);
+
+      // Tallies that only differ above 2^53 still have a single winner.
+      const close = buildResultsExport({ ...source, counts: [2n ** 60n + 1n, 2n ** 60n] });
+      expect([close.winner, close.tie]).to.deep.eq([{ option: 0, label: "Yes" }, false]);
+    });
+  });
+
+  describe("poll actions", function () {
+    let executor: VoteGridExecutor;
+    let target: MockActionTarget;
+
+    beforeEach(async function () {
+      executor = await (await ethers.getContractFactory("VoteGridExecutor")).deploy(voteGridAddress);
+      target = await (await ethers.getContractFactory("MockActionTarget")).deploy(await executor.getAddress());
+    });
+
+    /// Create a poll whose "Raise" option sets the target's value, vote in it and finalize it.
+    async function pollWithActions(creator: HardhatEthersSigner, choices: number[]) {
+      const pollId = Number(await voteGrid.totalPolls());
+      const { start, end } = await createPollWindow();
+      await voteGrid
+        .connect(creator)
+        .createPoll("Fee", ["Keep", "Raise"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      const raise = target.interface.encodeFunctionData("setValue", [42]);
+      const targets = [ethers.ZeroAddress, await target.getAddress()];
+      await executor.connect(creator).setActions(pollId, targets, ["0x", raise]);
+
+      await time.increaseTo(start + 2);
+      const voters = [signers.alice, signers.bob, signers.carol];
+      for (let i = 0; i < choices.length; i++) {
+        await encryptChoice(pollId, voters[i], choices[i]);
+      }
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(pollId);
+      return pollId;
+    }
+
+    async function publish(pollId: number) {
+      const handles = (await voteGrid.getEncryptedResults(pollId)).map((h) => h as `0x${string}`);
+      const { clearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+      const counts = handles.map((h) => clearValues[h] as bigint);
+      await voteGrid.publishResults(pollId, counts, decryptionProof);
+    }
+
+    it("runs the winning option's call once the verified results are published", async function () {
+      await pollWithActions(signers.deployer, [1, 1, 0]);
+      await expect(executor.execute(0)).to.be.revertedWith("Results not published");
+
+      await publish(0);
+      await expect(executor.connect(signers.carol).execute(0))
+        .to.emit(executor, "PollExecuted")
+        .withArgs(0, 1, await target.getAddress())
+        .and.to.emit(target, "ValueChanged")
+        .withArgs(0, 42);
+      expect(await target.value()).to.eq(42n);
+      expect((await executor.getActions(0)).executed).to.eq(true);
+      await expect(executor.execute(0)).to.be.revertedWith("Poll already executed");
+    });
+
+    it("refuses ties and actions the target rejects", async function () {
+      const tied = await pollWithActions(signers.deployer, [1, 0]);
+      await publish(tied);
+      await expect(executor.execute(tied)).to.be.revertedWith("Tied result");
+
+      // The target only accepts polls created by its owner, so the call fails and the poll stays executable.
+      const foreign = await pollWithActions(signers.alice, [1, 1, 0]);
+      await publish(foreign);
+      await expect(executor.execute(foreign)).to.be.revertedWith("Action failed");
+      expect((await executor.getActions(foreign)).executed).to.eq(false);
+      await expect(target.setValue(7)).to.be.revertedWith("Only executor");
+      expect(await target.value()).to.eq(0n);
+    });
+
+    it("only accepts one action per option from the creator before the poll opens", async function () {
+      // Leave room for the rejected calls below, which each mine a block, before the poll opens.
+      const start = (await time.latest()) + 60;
+      const end = start + 3600;
+      await voteGrid.createPoll("Fee", ["Keep", "Raise"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      const winnerOnly = { ...OPEN, reveal: 1 };
+      await voteGrid.createPoll(
+        "Private fee",
+        ["Keep", "Raise"],
+        BigInt(start),
+        BigInt(end),
+        winnerOnly,
+        NO_DETAILS,
+        [],
+      );
+      const targets = [ethers.ZeroAddress, await target.getAddress()];
+
+      await expect(executor.connect(signers.alice).setActions(0, targets, ["0x", "0x"])).to.be.revertedWith(
+        "Only creator",
+      );
+      await expect(executor.setActions(0, targets, ["0x"])).to.be.revertedWith("One action per option");
+      await expect(executor.setActions(1, targets, ["0x", "0x"])).to.be.revertedWith(
+        "Poll results cannot trigger actions",
+      );
+      await expect(executor.setActions(0, targets, ["0x", "0x"]))
+        .to.emit(executor, "PollActionsSet")
+        .withArgs(0);
+
+      await time.increaseTo(start + 2);
+      await expect(executor.setActions(0, targets, ["0x", "0x"])).to.be.revertedWith("Poll already started");
+    });
+  });
+
+  describe("finalization bounties", function () {
+    const BOUNTY = ethers.parseEther("0.01");
+
+    it("finalizes every expired poll in a batch and pays their bounties to the keeper", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Funded", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, [], {
+        value: BOUNTY,
+      });
+      await voteGrid.createPoll("Unfunded", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await voteGrid.createPoll("Later", ["Yes", "No"], BigInt(start), BigInt(end + 3600), OPEN, NO_DETAILS, [], {
+        value: BOUNTY,
+      });
+      await voteGrid.createPoll("Cancelled", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      await voteGrid.cancelPoll(3);
+      expect(await voteGrid.getBounty(0)).to.eq(BOUNTY);
+
+      await time.increaseTo(end + 1);
+      // Still-active, cancelled and unknown polls are skipped rather than failing the batch.
+      const tx = voteGrid.connect(signers.carol).finalizeExpired([0, 1, 2, 3, 99]);
+      await expect(tx).to.emit(voteGrid, "BountyPaid").withArgs(0, signers.carol.address, BOUNTY);
+      await expect(tx).to.changeEtherBalances([signers.carol, voteGrid], [BOUNTY, -BOUNTY]);
+
+      expect((await voteGrid.getPollMetadata(0)).finalized).to.eq(true);
+      expect((await voteGrid.getPollMetadata(1)).finalized).to.eq(true);
+      expect((await voteGrid.getPollMetadata(2)).finalized).to.eq(false);
+      expect(await voteGrid.getBounty(0)).to.eq(0n);
+      expect(await voteGrid.getBounty(2)).to.eq(BOUNTY);
+      expect(await voteGrid.finalizeExpired.staticCall([0, 1])).to.eq(0n);
+    });
+
+    it("refunds the bounty when the creator cancels the poll", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid
+        .connect(signers.alice)
+        .createPoll("Refund", ["Yes", "No"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, [], { value: BOUNTY });
+
+      await expect(voteGrid.connect(signers.alice).cancelPoll(0)).to.changeEtherBalances(
+        [signers.alice, voteGrid],
+        [BOUNTY, -BOUNTY],
+      );
+      expect(await voteGrid.getBounty(0)).to.eq(0n);
+    });
+  });
+
+  describe("creator policy", function () {
+    const DEPOSIT = ethers.parseEther("0.05");
+    const BOUNTY = ethers.parseEther("0.01");
+
+    async function createFrom(creator: HardhatEthersSigner, value = 0n) {
+      const start = (await time.latest()) + 60;
+      return voteGrid
+        .connect(creator)
+        .createPoll("Policy", ["Yes", "No"], BigInt(start), BigInt(start + 3600), OPEN, NO_DETAILS, [], { value });
+    }
+
+    it("locks the creation deposit, refunds it on finalization and slashes it on cancellation", async function () {
+      await creatorPolicy.setPolicy(DEPOSIT, 0, false);
+      await expect(createFrom(signers.alice, DEPOSIT - 1n)).to.be.revertedWith("Creation deposit required");
+
+      // ETH beyond the deposit is the finalization bounty.
+      const created = createFrom(signers.alice, DEPOSIT + BOUNTY);
+      await expect(created).to.emit(creatorPolicy, "DepositLocked").withArgs(0, signers.alice.address, DEPOSIT);
+      await expect(created).to.changeEtherBalances([voteGrid, creatorPolicy], [BOUNTY, DEPOSIT]);
+      expect(await voteGrid.getBounty(0)).to.eq(BOUNTY);
+      await createFrom(signers.alice, DEPOSIT);
+      expect(await creatorPolicy.openPollCount(signers.alice.address)).to.eq(2n);
+
+      await expect(voteGrid.connect(signers.alice).cancelPoll(1))
+        .to.emit(creatorPolicy, "DepositSlashed")
+        .withArgs(1, signers.alice.address, DEPOSIT);
+      expect(await creatorPolicy.slashedBalance()).to.eq(DEPOSIT);
+
+      await time.increaseTo((await voteGrid.getPollMetadata(0)).endTime + 1n);
+      await expect(voteGrid.connect(signers.carol).finalizePoll(0))
+        .to.emit(creatorPolicy, "DepositRefunded")
+        .withArgs(0, signers.alice.address, DEPOSIT);
+      expect(await creatorPolicy.openPollCount(signers.alice.address)).to.eq(0n);
+      expect(await creatorPolicy.depositOf(0)).to.eq(0n);
+
+      await expect(creatorPolicy.connect(signers.alice).withdrawRefund()).to.changeEtherBalance(signers.alice, DEPOSIT);
+      await expect(creatorPolicy.connect(signers.alice).withdrawRefund()).to.be.revertedWith("Nothing to withdraw");
+      await expect(creatorPolicy.connect(signers.alice).withdrawSlashed(signers.alice.address)).to.be.revertedWith(
+        "Only the owner",
+      );
+      await expect(creatorPolicy.withdrawSlashed(signers.bob.address)).to.changeEtherBalance(signers.bob, DEPOSIT);
+    });
+
+    it("caps open polls per creator and restricts creation to allowlisted creators", async function () {
+      await creatorPolicy.setPolicy(0, 1, false);
+      await createFrom(signers.alice);
+      await expect(createFrom(signers.alice)).to.be.revertedWith("Too many open polls");
+      await createFrom(signers.bob);
+      await voteGrid.connect(signers.alice).cancelPoll(0);
+      await createFrom(signers.alice);
+
+      await creatorPolicy.setPolicy(0, 0, true);
+      expect(await creatorPolicy.canCreate(signers.carol.address)).to.eq(false);
+      await expect(createFrom(signers.carol)).to.be.revertedWith("Creator not allowed");
+      await creatorPolicy.setCreatorsAllowed([signers.carol.address], true);
+      await createFrom(signers.carol);
+      await expect(creatorPolicy.connect(signers.carol).setPolicy(0, 0, false)).to.be.revertedWith("Only the owner");
+      await expect(creatorPolicy.setVoteGrid(signers.carol.address)).to.be.revertedWith("VoteGrid already set");
+    });
+  });
+
+  describe("winner-only polls", function () {
+    async function finalizeWinnerPoll(reveal: number, choices: number[]) {
+      const { start, end } = await createPollWindow();
+      const settings = { ...OPEN, reveal };
+      await voteGrid.createPoll("Winner", ["A", "B", "C"], BigInt(start), BigInt(end), settings, NO_DETAILS, []);
+
+      const voters = await ethers.getSigners();
+      await time.increaseTo(start + 2);
+      for (const [i, choice] of choices.entries()) {
+        await encryptChoice(0, voters[i], choice);
+      }
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+      return voteGrid.getEncryptedWinner(0);
+    }
+
+    it("reveals only the winning option", async function () {
+      const [winner, tie] = await finalizeWinnerPoll(1, [2, 1, 2]);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint8, winner)).to.eq(2n);
+      expect(tie).to.eq(ethers.ZeroHash);
+      await expect(voteGrid.getEncryptedResults(0)).to.be.revertedWith("Poll reveals the winner only");
+    });
+
+    it("reports ties and awards them to the lowest option index", async function () {
+      const [winner, tie] = await finalizeWinnerPoll(2, [2, 1, 2, 1, 0]);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint8, winner)).to.eq(1n);
+      expect(await fhevm.publicDecryptEbool(tie)).to.eq(true);
+    });
+
+    it("clears an earlier tie once a later option pulls ahead", async function () {
+      const [winner, tie] = await finalizeWinnerPoll(2, [0, 1, 2, 2]);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint8, winner)).to.eq(2n);
+      expect(await fhevm.publicDecryptEbool(tie)).to.eq(false);
+    });
+
+    it("is not available for ranked polls", async function () {
+      const { start, end } = await createPollWindow();
+      const ranked = { ...OPEN, ballotType: 3, reveal: 1 };
+      await expect(
+        voteGrid.createPoll("Ranked", ["A", "B", "C"], BigInt(start), BigInt(end), ranked, NO_DETAILS, []),
+      ).to.be.revertedWith("Ranked polls reveal every ranking");
+    });
+  });
+
+  describe("ballot receipts", function () {
+    async function decryptBallot(pollId: number, voter: HardhatEthersSigner) {
+      const handles = await voteGrid.getBallot(pollId, voter.address);
+      const values: bigint[] = [];
+      for (const handle of handles) {
+        values.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, voteGridAddress, voter));
+      }
+      return values;
+    }
+
+    it("lets only the voter decrypt their latest ballot", async function () {
+      const { start } = await createPollWindow();
+      const options = ["Pizza", "Sushi", "Tacos"];
+      const settings = { ...OPEN, allowRevote: true };
+      await voteGrid.createPoll("Lunch", options, BigInt(start), BigInt(start + 3600), settings, NO_DETAILS, []);
+      expect(await voteGrid.getBallot(0, signers.alice.address)).to.deep.eq([]);
+
+      await time.increaseTo(start + 2);
+      await encryptChoice(0, signers.alice, 2);
+      await encryptChoice(0, signers.alice, 1);
+      const ballot = await decryptBallot(0, signers.alice);
+      expect(ballot).to.deep.eq([0n, 1n, 0n]);
+      expect(describeBallot(0, options, ballot)).to.eq("Sushi");
+
+      const [handle] = await voteGrid.getBallot(0, signers.alice.address);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, handle, voteGridAddress, signers.bob)).to.be.rejected;
+    });
+
+    it("shows a ballot that failed validation as not counted", async function () {
+      const { start } = await createPollWindow();
+      const options = ["A", "B", "C"];
+      await voteGrid.createPoll("One-hot", options, BigInt(start), BigInt(start + 3600), OPEN, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      const encrypted = await fhevm
+        .createEncryptedInput(voteGridAddress, signers.alice.address)
+        .addBool(true)
+        .addBool(false)
+        .addBool(true)
+        .encrypt();
+      await voteGrid.connect(signers.alice).castOneHotVote(0, encrypted.handles, encrypted.inputProof, []);
+
+      const ballot = await decryptBallot(0, signers.alice);
+      expect(ballot).to.deep.eq([0n, 0n, 0n]);
+      expect(describeBallot(0, options, ballot)).to.eq("Not counted (the ballot failed validation)");
+    });
+  });
+
+  describe("one-hot ballots", function () {
+    async function castOneHot(pollId: number, voter: HardhatEthersSigner, flags: boolean[]) {
+      const input = fhevm.createEncryptedInput(voteGridAddress, voter.address);
+      flags.forEach((flag) => input.addBool(flag));
+      const encrypted = await input.encrypt();
+      return voteGrid.connect(voter).castOneHotVote(pollId, encrypted.handles, encrypted.inputProof, []);
+    }
+
+    it("tallies one-hot ballots and ignores ballots without exactly one flag", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("One-hot", ["A", "B", "C"], BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      await castOneHot(0, signers.alice, [false, true, false]);
+      await encryptChoice(0, signers.bob, 1);
+      await castOneHot(0, signers.carol, [true, false, true]);
+      await castOneHot(0, signers.deployer, [false, false, false]);
+      await expect(castOneHot(0, signers.alice, [true, false, false])).to.be.revertedWith("Address already voted");
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([0n, 2n, 0n]);
+    });
+
+    // `npm run test:gas` prints HCU and gas for both encodings; the one-hot vote must be cheaper in HCU at every size.
+    it("uses fewer HCU than index ballots", async function () {
+      const voters = await ethers.getSigners();
+      const { start, end } = await createPollWindow();
+      const sizes = [4, 8, 16];
+      for (const optionCount of sizes) {
+        const options = Array.from({ length: optionCount }, (_, i) => `Option ${i}`);
+        await voteGrid.createPoll("Benchmark", options, BigInt(start), BigInt(end), OPEN, NO_DETAILS, []);
+      }
+      await time.increaseTo(start + 2);
+
+      for (const [pollId, optionCount] of sizes.entries()) {
+        const indexReceipt = await (await encryptChoice(pollId, voters[0], optionCount - 1)).wait();
+        const flags = Array.from({ length: optionCount }, (_, i) => i === optionCount - 1);
+        const oneHotReceipt = await (await castOneHot(pollId, voters[1], flags)).wait();
+
+        const indexHCU = fhevm.computeTransactionHCU(indexReceipt!);
+        const oneHotHCU = fhevm.computeTransactionHCU(oneHotReceipt!);
+        if (process.env.REPORT_GAS) {
+          console.log(
+            `      ${optionCount} options | index: ${indexHCU.globalHCU} HCU, ${indexReceipt!.gasUsed} gas` +
+              ` | one-hot: ${oneHotHCU.globalHCU} HCU, ${oneHotReceipt!.gasUsed} gas`,
+          );
+        }
+        expect(oneHotHCU.globalHCU).to.be.lessThan(indexHCU.globalHCU);
+      }
+    });
+  });
+
+  describe("token-weighted polls", function () {
+    let token: MockSnapshotToken;
+    let tokenAddress: string;
+
+    beforeEach(async function () {
+      token = await ethers.deployContract("MockSnapshotToken", ["Governance", "GOV"]);
+      tokenAddress = await token.getAddress();
+      await token.mint(signers.alice.address, ethers.parseEther("3"));
+      await token.mint(signers.bob.address, ethers.parseEther("5"));
+      await token.mint(signers.carol.address, ethers.parseEther("0.5"));
+    });
+
+    it("weights encrypted votes by whole-token balance at the snapshot block", async function () {
+      const snapshotBlock = await ethers.provider.getBlockNumber();
+      const { start, end } = await createPollWindow();
+      const settings = { ...OPEN, weightToken: tokenAddress, snapshotBlock };
+      await voteGrid.createPoll("Treasury", ["Fund", "Reject"], BigInt(start), BigInt(end), settings, NO_DETAILS, []);
+
+      // Balances moved after the snapshot do not change the weights.
+      await token.connect(signers.alice).transfer(signers.bob.address, ethers.parseEther("3"));
+      expect(await voteGrid.getVoteWeight(0, signers.alice.address)).to.eq(3);
+      expect(await voteGrid.getVoteWeight(0, signers.bob.address)).to.eq(5);
+      expect(await voteGrid.getVoteWeight(0, signers.carol.address)).to.eq(0);
+
+      await time.increaseTo(start + 2);
+      await encryptChoice(0, signers.alice, 0);
+      await encryptChoice(0, signers.bob, 1);
+      await expect(encryptChoice(0, signers.carol, 0)).to.be.revertedWith("No voting weight");
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as string);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(clearValues[handles[0] as `0x${string}`]).to.eq(3n);
+      expect(clearValues[handles[1] as `0x${string}`]).to.eq(5n);
+    });
+
+    it("requires the snapshot block to be in the past", async function () {
+      const { start, end } = await createPollWindow();
+      const snapshotBlock = (await ethers.provider.getBlockNumber()) + 5;
+      await expect(
+        voteGrid.createPoll(
+          "Future",
+          ["A", "B"],
+          BigInt(start),
+          BigInt(end),
+          {
+            ...OPEN,
+            weightToken: tokenAddress,
+            snapshotBlock,
+          },
+          NO_DETAILS,
+          [],
+        ),
+      ).to.be.revertedWith("Snapshot block must be in the past");
+    });
+  });
+
+  describe("allocation polls", function () {
+    const ALLOCATION = { ...OPEN, ballotType: 1 };
+
+    async function assignAllowances(pollId: number, voters: HardhatEthersSigner[], amounts: bigint[]) {
+      const input = fhevm.createEncryptedInput(voteGridAddress, signers.deployer.address);
+      amounts.forEach((amount) => input.add64(amount));
+      const encrypted = await input.encrypt();
+      return voteGrid.setAllowances(
+        pollId,
+        voters.map((v) => v.address),
+        encrypted.handles,
+        encrypted.inputProof,
+      );
+    }
+
+    async function allocate(pollId: number, voter: HardhatEthersSigner, amounts: bigint[]) {
+      const input = fhevm.createEncryptedInput(voteGridAddress, voter.address);
+      amounts.forEach((amount) => input.add64(amount));
+      const encrypted = await input.encrypt();
+      return voteGrid.connect(voter).castAllocationVote(pollId, encrypted.handles, encrypted.inputProof, []);
+    }
+
+    it("adds valid splits and silently zeroes splits above the allowance", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll(
+        "Budget",
+        ["Research", "Events", "Grants"],
+        BigInt(start),
+        BigInt(end),
+        ALLOCATION,
+        NO_DETAILS,
+        [],
+      );
+      await assignAllowances(0, [signers.alice, signers.bob], [10n, 5n]);
+
+      const aliceAllowance = await voteGrid.getAllowance(0, signers.alice.address);
+      const clearAllowance = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        aliceAllowance,
+        voteGridAddress,
+        signers.alice,
+      );
+      expect(clearAllowance).to.eq(10n);
+
+      await time.increaseTo(start + 2);
+      await allocate(0, signers.alice, [4n, 6n, 0n]);
+      // Bob's split exceeds his allowance of 5, so it is recorded but counts for nothing.
+      await allocate(0, signers.bob, [3n, 0n, 3n]);
+      await expect(allocate(0, signers.carol, [1n, 0n, 0n])).to.be.revertedWith("No allowance");
+      await expect(encryptChoice(0, signers.carol, 0)).to.be.revertedWith("Wrong ballot type");
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([4n, 6n, 0n]);
+    });
+
+    it("rejects splits whose encrypted sum wraps around", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Overflow", ["A", "B"], BigInt(start), BigInt(end), ALLOCATION, NO_DETAILS, []);
+      await assignAllowances(0, [signers.alice], [5n]);
+
+      await time.increaseTo(start + 2);
+      await allocate(0, signers.alice, [2n ** 64n - 1n, 2n]);
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([0n, 0n]);
+    });
+
+    it("only lets the creator assign allowances before the poll opens", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Budget", ["A", "B"], BigInt(start), BigInt(end), ALLOCATION, NO_DETAILS, []);
+
+      const input = fhevm.createEncryptedInput(voteGridAddress, signers.alice.address).add64(5n);
+      const encrypted = await input.encrypt();
+      await expect(
+        voteGrid
+          .connect(signers.alice)
+          .setAllowances(0, [signers.alice.address], encrypted.handles, encrypted.inputProof),
+      ).to.be.revertedWith("Only creator");
+
+      await time.increaseTo(start + 2);
+      await expect(assignAllowances(0, [signers.alice], [5n])).to.be.revertedWith("Poll already started");
+    });
+  });
+  describe("approval polls", function () {
+    const APPROVAL = { ...OPEN, ballotType: 2 };
+
+    async function approve(pollId: number, voter: HardhatEthersSigner, selections: boolean[]) {
+      const input = fhevm.createEncryptedInput(voteGridAddress, voter.address);
+      selections.forEach((selected) => input.addBool(selected));
+      const encrypted = await input.encrypt();
+      return voteGrid.connect(voter).castApprovalVote(pollId, encrypted.handles, encrypted.inputProof, []);
+    }
+
+    it("adds one vote to every approved option", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll(
+        "Venues",
+        ["Berlin", "Lisbon", "Austin"],
+        BigInt(start),
+        BigInt(end),
+        APPROVAL,
+        NO_DETAILS,
+        [],
+      );
+
+      await time.increaseTo(start + 2);
+      await approve(0, signers.alice, [true, false, true]);
+      await approve(0, signers.bob, [false, false, true]);
+      // A blank ballot is accepted and approves nothing.
+      await approve(0, signers.carol, [false, false, false]);
+      await expect(approve(0, signers.alice, [true, true, true])).to.be.revertedWith("Address already voted");
+      await expect(encryptChoice(0, signers.deployer, 0)).to.be.revertedWith("Wrong ballot type");
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([1n, 0n, 2n]);
+    });
+
+    it("requires one selection per option", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll(
+        "Venues",
+        ["Berlin", "Lisbon", "Austin"],
+        BigInt(start),
+        BigInt(end),
+        APPROVAL,
+        NO_DETAILS,
+        [],
+      );
+
+      await time.increaseTo(start + 2);
+      await expect(approve(0, signers.alice, [true, false])).to.be.revertedWith("One selection per option");
+    });
+  });
+  describe("ranked polls", function () {
+    const RANKED = { ...OPEN, ballotType: 3 };
+
+    async function rank(pollId: number, voter: HardhatEthersSigner, index: number) {
+      const encrypted = await fhevm.createEncryptedInput(voteGridAddress, voter.address).add8(index).encrypt();
+      return voteGrid.connect(voter).castRankedVote(pollId, encrypted.handles[0], encrypted.inputProof, []);
+    }
+
+    it("counts every ranking and elects the instant-runoff winner", async function () {
+      const dave = (await ethers.getSigners())[4];
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Chair", ["Ana", "Ben", "Cy"], BigInt(start), BigInt(end), RANKED, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      await rank(0, signers.deployer, rankingIndex([0, 1, 2]));
+      await rank(0, signers.alice, rankingIndex([0, 2, 1]));
+      await rank(0, signers.bob, rankingIndex([1, 0, 2]));
+      await rank(0, signers.carol, rankingIndex([2, 1, 0]));
+      await rank(0, dave, rankingIndex([2, 1, 0]));
+
+      const ranking = await voteGrid.getRanking(0, signers.bob.address);
+      const clearRanking = await fhevm.userDecryptEuint(FhevmType.euint8, ranking, voteGridAddress, signers.bob);
+      expect(clearRanking).to.eq(BigInt(rankingIndex([1, 0, 2])));
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      expect(handles.length).to.eq(rankingCount(3));
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      const counts = handles.map((h) => clearValues[h] as bigint);
+
+      // Ana and Cy tie on first preferences; Ben is eliminated and his voter's second choice elects Ana.
+      const { winner, rounds } = instantRunoff(3, counts);
+      expect(rounds.map((round) => round.tallies)).to.deep.eq([
+        [2n, 1n, 2n],
+        [3n, null, 2n],
+      ]);
+      expect(rounds[0].eliminated).to.eq(1);
+      expect(winner).to.eq(0);
+    });
+
+    it("ignores ranking indexes outside the valid range", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Chair", ["Ana", "Ben"], BigInt(start), BigInt(end), RANKED, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      await rank(0, signers.alice, 1);
+      await rank(0, signers.bob, 7);
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      expect(handles.map((h) => clearValues[h])).to.deep.eq([0n, 1n]);
+    });
+  });
+
+  describe("surveys", function () {
+    const SURVEY = { ...OPEN, ballotType: 4 };
+    const QUESTIONS = [
+      { prompt: "Office days", options: ["1", "2", "3"] },
+      { prompt: "Keep the offsite?", options: ["Yes", "No"] },
+    ];
+
+    async function answer(pollId: number, voter: HardhatEthersSigner, answers: number[]) {
+      const input = fhevm.createEncryptedInput(voteGridAddress, voter.address);
+      answers.forEach((choice) => input.add32(choice));
+      const encrypted = await input.encrypt();
+      return voteGrid.connect(voter).castSurveyVote(pollId, encrypted.handles, encrypted.inputProof, []);
+    }
+
+    it("tallies every question of one ballot and counts each voter once", async function () {
+      const { start, end } = await createPollWindow();
+      await voteGrid.createSurvey("Quarterly survey", QUESTIONS, BigInt(start), BigInt(end), SURVEY, NO_DETAILS, []);
+
+      const [prompts, optionCounts] = await voteGrid.getSurveyQuestions(0);
+      expect(prompts).to.deep.eq(["Office days", "Keep the offsite?"]);
+      expect(optionCounts).to.deep.eq([3n, 2n]);
+      expect(await voteGrid.getOptions(0)).to.deep.eq(["1", "2", "3", "Yes", "No"]);
+
+      await time.increaseTo(start + 2);
+      await answer(0, signers.alice, [2, 0]);
+      await answer(0, signers.bob, [2, 1]);
+      // An answer outside its question counts for nothing, while the other answers still count.
+      await answer(0, signers.carol, [0, 5]);
+      await expect(answer(0, signers.alice, [1, 1])).to.be.revertedWith("Address already voted");
+      await expect(answer(0, signers.deployer, [1])).to.be.revertedWith("One answer per question");
+      await expect(encryptChoice(0, signers.deployer, 0)).to.be.revertedWith("Wrong ballot type");
+      expect((await voteGrid.getTurnout(0))[0]).to.eq(3);
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      const counts = handles.map((h) => clearValues[h] as bigint);
+      expect(splitSurvey(counts, optionCounts)).to.deep.eq([
+        [1n, 0n, 2n],
+        [1n, 1n],
+      ]);
+    });
+
+    it("only creates surveys through createSurvey with valid questions", async function () {
+      const start = (await time.latest()) + 60;
+      const end = start + 3600;
+      const create = (questions: typeof QUESTIONS, settings = SURVEY) =>
+        voteGrid.createSurvey("Survey", questions, BigInt(start), BigInt(end), settings, NO_DETAILS, []);
+
+      await expect(
+        voteGrid.createPoll("Survey", ["A", "B"], BigInt(start), BigInt(end), SURVEY, NO_DETAILS, []),
+      ).to.be.revertedWith("Create surveys with createSurvey");
+      await expect(create(QUESTIONS, OPEN)).to.be.revertedWith("Surveys use the Survey ballot type");
+      await expect(create(QUESTIONS.slice(0, 1))).to.be.revertedWith("Questions must be between 2 and 16");
+      await expect(create([QUESTIONS[0], { prompt: "Lunch", options: ["Pizza"] }])).to.be.revertedWith(
+        "Options must be between 2 and maxOptions",
+      );
+      await expect(create([QUESTIONS[0], { prompt: "", options: ["A", "B"] }])).to.be.revertedWith("Question required");
+      await expect(create(QUESTIONS, { ...SURVEY, reveal: 1 })).to.be.revertedWith(
+        "Surveys and numeric polls reveal every tally",
+      );
+      const crowded = Array.from({ length: 5 }, (_, q) => ({
+        prompt: `Question ${q}`,
+        options: Array.from({ length: MAX_OPTIONS }, (_, i) => `Option ${i}`),
+      }));
+      await expect(create(crowded)).to.be.revertedWith("Too many survey options");
+    });
+  });
+
+  describe("numeric polls", function () {
+    const RATING = { ...OPEN, ballotType: 5, minValue: 1, maxValue: 10 };
+    const BUCKETS = numericBuckets(1, 10, 4).map(bucketLabel);
+
+    async function rate(pollId: number, voter: HardhatEthersSigner, value: number) {
+      const encrypted = await fhevm.createEncryptedInput(voteGridAddress, voter.address).add32(value).encrypt();
+      return voteGrid.connect(voter).castNumericVote(pollId, encrypted.handles[0], encrypted.inputProof, []);
+    }
+
+    it("keeps an encrypted sum and histogram and clamps values to the range", async function () {
+      expect(BUCKETS).to.deep.eq(["1-2", "3-5", "6-7", "8-10"]);
+      const { start, end } = await createPollWindow();
+      await voteGrid.createPoll("Rate the offsite", BUCKETS, BigInt(start), BigInt(end), RATING, NO_DETAILS, []);
+
+      await time.increaseTo(start + 2);
+      await rate(0, signers.alice, 4);
+      await rate(0, signers.bob, 7);
+      // Out-of-range values count as the nearest bound.
+      await rate(0, signers.carol, 0);
+      await rate(0, signers.deployer, 250);
+      await expect(encryptChoice(0, signers.alice, 0)).to.be.revertedWith("Wrong ballot type");
+
+      const ballot = await voteGrid.getBallot(0, signers.deployer.address);
+      const increments: bigint[] = [];
+      for (const handle of ballot) {
+        increments.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, voteGridAddress, signers.deployer));
+      }
+      expect(describeBallot(5, BUCKETS, increments)).to.eq("10 (8-10)");
+
+      await time.increaseTo(end + 1);
+      await voteGrid.finalizePoll(0);
+
+      const handles = (await voteGrid.getEncryptedResults(0)).map((h) => h as `0x${string}`);
+      expect(handles.length).to.eq(BUCKETS.length + 1);
+      const { clearValues } = await fhevm.publicDecrypt(handles);
+      const summary = summarizeNumeric(handles.map((h) => clearValues[h] as bigint));
+      expect(summary.histogram).to.deep.eq([1n, 1n, 1n, 1n]);
+      expect(summary.sum).to.eq(22n);
+      expect(summary.mean).to.eq(5.5);
+    });
+
+    it("requires a range with at least one value per bucket", async function () {
+      const start = (await time.latest()) + 60;
+      const create = (settings: typeof RATING, buckets = BUCKETS) =>
+        voteGrid.createPoll("Rating", buckets, BigInt(start), BigInt(start + 3600), settings, NO_DETAILS, []);
+
+      await expect(create({ ...RATING, maxValue: 1 })).to.be.revertedWith("Invalid numeric range");
+      await expect(create({ ...RATING, maxValue: 3 })).to.be.revertedWith("Invalid numeric range");
+      await expect(create({ ...RATING, reveal: 1 })).to.be.revertedWith("Surveys and numeric polls reveal every tally");
+      await create({ ...RATING, maxValue: 4 });
+    });
+
+    it("cannot be token-weighted, so large balances cannot wrap the sum", async function () {
+      const token = await ethers.deployContract("MockSnapshotToken", ["Governance", "GOV"]);
+      await token.mint(signers.alice.address, ethers.parseEther("1000000"));
+      const snapshotBlock = await ethers.provider.getBlockNumber();
+      const { start, end } = await createPollWindow();
+      const settings = { ...RATING, maxValue: 4_000_000_000, weightToken: await token.getAddress(), snapshotBlock };
+
+      await expect(
+        voteGrid.createPoll("Estimate", BUCKETS, BigInt(start), BigInt(end), settings, NO_DETAILS, []),
+      ).to.be.revertedWith("Numeric polls cannot be token-weighted");
+    });
+  });
 });